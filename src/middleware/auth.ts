@@ -1,26 +1,144 @@
 import { Request, Response, NextFunction } from "express";
-import { config } from "@/utils/config";
+import { ParamsDictionary } from "express-serve-static-core";
+import { apiKeyService } from "@/services/apikeys";
 import logger from "@/utils/logger";
-import { APIResponse } from "@/types";
+import { verifySupabaseToken } from "@/utils/supabase-auth";
+import { APIResponse, ApiKeyScope, AuthenticatedApiKey } from "@/types";
 
-interface AuthenticatedRequest extends Request {
+interface AuthenticatedRequest<P = ParamsDictionary> extends Request<P> {
     userId?: string;
+    apiKey?: AuthenticatedApiKey;
 }
 
-export const authenticateAPI = (
+export const authenticateAPI = async (
     req: AuthenticatedRequest,
     res: Response<APIResponse>,
     next: NextFunction
+): Promise<void> => {
+    const key = req.get("x-api-key");
+
+    try {
+        const apiKey = key ? await apiKeyService.authenticate(key) : null;
+
+        if (!apiKey) {
+            logger.warn("Unauthorized API access attempt", {
+                ip: req.ip,
+                userAgent: req.get("User-Agent"),
+                path: req.path,
+            });
+
+            res.status(401).json({
+                success: false,
+                error: "Unauthorized",
+            });
+            return;
+        }
+
+        req.apiKey = apiKey;
+    } catch (error) {
+        logger.error("API key lookup failed:", error);
+        res.status(500).json({
+            success: false,
+            error: "Internal server error",
+        });
+        return;
+    }
+
+    next();
+};
+
+/**
+ * Only let through API keys granted the scope (or `admin`). Runs after
+ * authenticateAPI.
+ */
+export const requireScope =
+    (scope: ApiKeyScope) =>
+    <P>(
+        req: AuthenticatedRequest<P>,
+        res: Response<APIResponse>,
+        next: NextFunction
+    ): void => {
+        if (!req.apiKey || !apiKeyService.hasScope(req.apiKey, scope)) {
+            logger.warn("API key missing required scope", {
+                keyId: req.apiKey?.id,
+                keyName: req.apiKey?.name,
+                scope,
+                path: req.path,
+            });
+
+            res.status(403).json({
+                success: false,
+                error: "Forbidden",
+            });
+            return;
+        }
+
+        next();
+    };
+
+/**
+ * Only let through keys issued to a person, so admin and support actions
+ * can be traced to them. The legacy API_KEY has no owner and is refused.
+ * Runs after authenticateAPI.
+ */
+export const requireStaff = <P>(
+    req: AuthenticatedRequest<P>,
+    res: Response<APIResponse>,
+    next: NextFunction
 ): void => {
-    const apiKey = req.headers["x-api-key"] as string;
+    if (!req.apiKey?.owner) {
+        logger.warn("Admin access attempt without a personal API key", {
+            keyId: req.apiKey?.id,
+            keyName: req.apiKey?.name,
+            path: req.path,
+        });
+
+        res.status(403).json({
+            success: false,
+            error: "Forbidden",
+        });
+        return;
+    }
+
+    next();
+};
+
+/**
+ * Verify the Supabase access token sent as `Authorization: Bearer <token>`
+ * and take the user id from it
+ */
+export const authenticateUser = async (
+    req: AuthenticatedRequest,
+    res: Response<APIResponse>,
+    next: NextFunction
+): Promise<void> => {
+    const authorization = req.get("Authorization");
+    const token = authorization?.startsWith("Bearer ")
+        ? authorization.slice("Bearer ".length)
+        : undefined;
+
+    if (!token) {
+        logger.warn("Missing access token in request", {
+            ip: req.ip,
+            path: req.path,
+            method: req.method,
+        });
 
-    console.log(apiKey);
+        res.status(401).json({
+            success: false,
+            error: "Unauthorized",
+        });
+        return;
+    }
 
-    if (!apiKey || apiKey !== config.security.apiKey) {
-        logger.warn("Unauthorized API access attempt", {
+    try {
+        const payload = await verifySupabaseToken(token);
+        req.userId = payload.sub;
+    } catch (error) {
+        logger.warn("Invalid access token", {
             ip: req.ip,
-            userAgent: req.get("User-Agent"),
             path: req.path,
+            error: (error as Error).message,
         });
 
         res.status(401).json({
@@ -33,27 +151,34 @@ export const authenticateAPI = (
     next();
 };
 
-export const extractUserId = (
-    req: AuthenticatedRequest,
+/**
+ * Reject requests about a user other than the authenticated one. The user
+ * id can be a route param, a body field or a query parameter.
+ */
+export const requireSelf = <P>(
+    req: AuthenticatedRequest<P>,
     res: Response<APIResponse>,
     next: NextFunction
 ): void => {
-    const userId = (req.headers["x-user-id"] as string) || req.body.userId;
+    const requestedUserId =
+        (req.params as { userId?: string }).userId ??
+        req.body?.userId ??
+        req.query.userId;
 
-    if (!userId) {
-        logger.warn("Missing user ID in request", {
+    if (requestedUserId !== undefined && requestedUserId !== req.userId) {
+        logger.warn("Request for another user's data rejected", {
+            userId: req.userId,
+            requestedUserId,
             path: req.path,
-            method: req.method,
         });
 
-        res.status(400).json({
+        res.status(403).json({
             success: false,
-            error: "User ID is required",
+            error: "Forbidden",
         });
         return;
     }
 
-    req.userId = userId;
     next();
 };
 
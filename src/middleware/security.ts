@@ -1,5 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
+import { cacheService } from '@/services/cache';
 import logger from '@/utils/logger';
+import { APIResponse } from '@/types';
+import { AuthenticatedRequest } from '@/middleware/auth';
 
 export const requestLogger = (req: Request, res: Response, next: NextFunction): void => {
   const start = Date.now();
@@ -19,41 +22,145 @@ export const requestLogger = (req: Request, res: Response, next: NextFunction):
   next();
 };
 
-export const rateLimitByIP = new Map<string, { count: number; resetTime: number }>();
+const MINUTE_MS = 60 * 1000;
 
-export const simpleRateLimit = (maxRequests: number, windowMs: number) => {
-  return (req: Request, res: Response, next: NextFunction): void => {
-    const ip = req.ip || 'unknown';
-    const now = Date.now();
+export interface RateLimitPolicy {
+  name: string;
+  limit: number;
+  windowMs: number;
+  // Who the limit applies to. `user` and `apiKey` fall back to the IP
+  // before authentication has run.
+  by: 'ip' | 'user' | 'apiKey';
+}
 
-    // Clean up expired entries
-    for (const [key, value] of rateLimitByIP.entries()) {
-      if (now > value.resetTime) {
-        rateLimitByIP.delete(key);
+export const RATE_LIMITS = {
+  // Requests that authentication didn't accept, whatever headers they sent
+  anonymous: { name: 'anonymous', limit: 100, windowMs: 15 * MINUTE_MS, by: 'ip' },
+  // Requests authenticated by an API key alone. Per IP, since app installs
+  // share the client key, and well above the per-user limits so users
+  // sharing an IP aren't throttled together.
+  ip: { name: 'ip', limit: 1000, windowMs: MINUTE_MS, by: 'ip' },
+  subscriptions: { name: 'subscriptions', limit: 60, windowMs: MINUTE_MS, by: 'user' },
+  // Each synthesis is a paid OpenAI call
+  tts: { name: 'tts', limit: 30, windowMs: MINUTE_MS, by: 'user' },
+  offers: { name: 'offers', limit: 20, windowMs: MINUTE_MS, by: 'user' },
+  checkout: { name: 'checkout', limit: 10, windowMs: MINUTE_MS, by: 'user' },
+  admin: { name: 'admin', limit: 300, windowMs: MINUTE_MS, by: 'apiKey' },
+} satisfies Record<string, RateLimitPolicy>;
+
+const getRateLimitSubject = (
+  req: AuthenticatedRequest<unknown>,
+  by: RateLimitPolicy['by']
+): string => {
+  if (by === 'user' && req.userId) {
+    return `user:${req.userId}`;
+  }
+  if (by === 'apiKey' && req.apiKey) {
+    return `key:${req.apiKey.id}`;
+  }
+  return `ip:${req.ip || 'unknown'}`;
+};
+
+// Windows kept in this process while Redis is unavailable
+const localWindows = new Map<string, { windowMs: number; hits: number[] }>();
+let lastSweepAt = 0;
+
+/**
+ * The same sliding window as cacheService.hitRateLimit, kept per instance
+ */
+const hitLocalRateLimit = (
+  key: string,
+  limit: number,
+  windowMs: number,
+  record: boolean
+): { allowed: boolean; count: number; resetMs: number } => {
+  const now = Date.now();
+
+  // Drop windows nobody has hit lately so idle IPs don't pile up
+  if (now - lastSweepAt > MINUTE_MS) {
+    lastSweepAt = now;
+    for (const [windowKey, entry] of localWindows) {
+      const newest = entry.hits[entry.hits.length - 1] ?? 0;
+      if (newest <= now - entry.windowMs) {
+        localWindows.delete(windowKey);
       }
     }
+  }
 
-    const current = rateLimitByIP.get(ip);
+  const entry = localWindows.get(key) ?? { windowMs, hits: [] };
+  localWindows.set(key, entry);
+
+  while (entry.hits.length > 0 && entry.hits[0]! <= now - windowMs) {
+    entry.hits.shift();
+  }
+
+  const allowed = entry.hits.length < limit;
+  if (allowed && record) {
+    entry.hits.push(now);
+  }
+
+  return {
+    allowed,
+    count: entry.hits.length,
+    resetMs: Math.max((entry.hits[0] ?? now) + windowMs - now, 0)
+  };
+};
 
-    if (!current) {
-      rateLimitByIP.set(ip, { count: 1, resetTime: now + windowMs });
+/**
+ * Sliding-window rate limit shared by every instance through Redis, with
+ * the RateLimit-* headers. Limiters can be stacked; the headers report
+ * whichever is closest to its limit. Without Redis, or if it errors, each
+ * instance keeps its own windows.
+ *
+ * With `countIf`, a request is refused once the window is full but only
+ * counted if `countIf` holds after the response finishes, e.g. when
+ * authentication further down didn't accept it.
+ */
+export const rateLimit = (
+  policy: RateLimitPolicy,
+  options: {
+    skip?: (req: Request) => boolean;
+    countIf?: (req: AuthenticatedRequest<unknown>) => boolean;
+  } = {}
+) => {
+  const hit = async (key: string, record: boolean) =>
+    (await cacheService.hitRateLimit(key, policy.limit, policy.windowMs, record)) ??
+    hitLocalRateLimit(key, policy.limit, policy.windowMs, record);
+
+  return async <P>(
+    req: AuthenticatedRequest<P>,
+    res: Response<APIResponse>,
+    next: NextFunction
+  ): Promise<void> => {
+    if (options.skip?.(req as Request)) {
       next();
       return;
     }
 
-    if (now > current.resetTime) {
-      rateLimitByIP.set(ip, { count: 1, resetTime: now + windowMs });
-      next();
-      return;
+    const subject = getRateLimitSubject(req, policy.by);
+    const key = `${policy.name}:${subject}`;
+    const { countIf } = options;
+    const result = await hit(key, !countIf);
+
+    const remaining = Math.max(policy.limit - result.count, 0);
+    const resetSeconds = Math.ceil(result.resetMs / 1000);
+    const reported = res.getHeader('RateLimit-Remaining');
+
+    if (reported === undefined || remaining <= Number(reported)) {
+      res.setHeader('RateLimit-Policy', `${policy.limit};w=${policy.windowMs / 1000}`);
+      res.setHeader('RateLimit-Limit', policy.limit);
+      res.setHeader('RateLimit-Remaining', remaining);
+      res.setHeader('RateLimit-Reset', resetSeconds);
     }
 
-    if (current.count >= maxRequests) {
+    if (!result.allowed) {
       logger.warn('Rate limit exceeded', {
-        ip,
-        path: req.path,
-        count: current.count
+        policy: policy.name,
+        subject,
+        path: req.path
       });
 
+      res.setHeader('Retry-After', resetSeconds);
       res.status(429).json({
         success: false,
         error: 'Too many requests'
@@ -61,7 +168,14 @@ export const simpleRateLimit = (maxRequests: number, windowMs: number) => {
       return;
     }
 
-    current.count++;
+    if (countIf) {
+      res.on('finish', () => {
+        if (countIf(req)) {
+          void hit(key, true);
+        }
+      });
+    }
+
     next();
   };
-};
\ No newline at end of file
+};
@@ -1,17 +1,24 @@
 import { Request, Response, NextFunction } from "express";
 import Joi from "joi";
 import logger from "@/utils/logger";
-import { APIResponse } from "@/types";
+import { API_KEY_SCOPES, APIResponse, ENTITLEMENTS } from "@/types";
+import { catalogService } from "@/services/catalog";
 
 export const validate = (schema: Joi.ObjectSchema) => {
-    return (
+    return async (
         req: Request,
         res: Response<APIResponse>,
         next: NextFunction
-    ): void => {
-        const { error } = schema.validate(req.body);
+    ): Promise<void> => {
+        try {
+            // validateAsync so schemas can run external (e.g. catalog) checks
+            await schema.validateAsync(req.body);
+        } catch (error) {
+            if (!(error instanceof Joi.ValidationError)) {
+                next(error);
+                return;
+            }
 
-        if (error) {
             logger.warn("Validation error:", {
                 path: req.path,
                 error: error.details[0]?.message,
@@ -28,12 +35,147 @@ export const validate = (schema: Joi.ObjectSchema) => {
     };
 };
 
+/**
+ * Product must exist in the catalog. Retired products are accepted so
+ * restores of existing purchases keep validating.
+ */
+const catalogProductId = Joi.string()
+    .required()
+    .external(async (value: string, helpers) => {
+        if (!(await catalogService.getProduct(value))) {
+            return helpers.message({
+                external: `"productId" ${value} is not a known product`,
+            });
+        }
+        return value;
+    });
+
 export const validateReceiptSchema = Joi.object({
     purchaseToken: Joi.string().required(),
     userId: Joi.string().required(),
     transactionId: Joi.string().optional(),
-    productId: Joi.string().required(),
+    productId: catalogProductId,
     environment: Joi.string().valid("Sandbox", "Production").optional(),
+    platform: Joi.string().valid("app_store", "google_play").optional(),
+});
+
+/**
+ * Product must be an auto-renewable subscription in the catalog
+ */
+const subscriptionProductId = Joi.string().external(
+    async (value: string | undefined, helpers) => {
+        if (value === undefined) {
+            return value;
+        }
+        const product = await catalogService.getProduct(value);
+        if (!product || product.type !== "auto_renewable") {
+            return helpers.message({
+                external: `"productId" ${value} is not a subscription product`,
+            });
+        }
+        return value;
+    }
+);
+
+export const offerSignatureSchema = Joi.object({
+    userId: Joi.string().required(),
+    productId: subscriptionProductId.required(),
+    offerId: Joi.string().required(),
+});
+
+export const renewalExtensionSchema = Joi.object({
+    userId: Joi.string(),
+    productId: subscriptionProductId,
+    extendByDays: Joi.number().integer().min(1).max(90).required(),
+    // Apple's ExtendReasonCode: 0 undeclared, 1 customer satisfaction,
+    // 2 other, 3 service issue or outage
+    extendReasonCode: Joi.number().valid(0, 1, 2, 3).required(),
+    storefrontCountryCodes: Joi.array().items(Joi.string().length(3)),
+    environment: Joi.string().valid("Sandbox", "Production"),
+})
+    .xor("userId", "productId")
+    .with("storefrontCountryCodes", "productId")
+    .with("environment", "productId");
+
+export const reconcileSchema = Joi.object({
+    dryRun: Joi.boolean(),
+});
+
+export const createApiKeySchema = Joi.object({
+    name: Joi.string().max(100).required(),
+    scopes: Joi.array()
+        .items(Joi.string().valid(...API_KEY_SCOPES))
+        .min(1)
+        .unique()
+        .required(),
+    // The person holding the key, recorded as the actor of their admin and
+    // support actions
+    owner: Joi.string()
+        .max(200)
+        .when("scopes", {
+            is: Joi.array().has(Joi.string().valid("support", "admin")),
+            then: Joi.required(),
+        }),
+    expiresAt: Joi.date().iso().greater("now"),
+});
+
+export const rotateApiKeySchema = Joi.object({
+    // How long the old key keeps working
+    overlapHours: Joi.number().min(0).max(720),
+});
+
+export const oneTimeUnlockSchema = Joi.object({
+    unlocked: Joi.boolean().required(),
+    reason: Joi.string().max(500).required(),
+});
+
+export const entitlementGrantSchema = Joi.object({
+    entitlement: Joi.string()
+        .valid(...Object.values(ENTITLEMENTS))
+        .required(),
+    startsAt: Joi.date().iso(),
+    expiresAt: Joi.date()
+        .iso()
+        .greater("now")
+        .when("startsAt", {
+            is: Joi.exist(),
+            then: Joi.date().greater(Joi.ref("startsAt")),
+        })
+        .required(),
+    reason: Joi.string().max(500).required(),
+});
+
+/**
+ * Subscription product with a Stripe price, i.e. sold on the web
+ */
+const stripeProductId = Joi.string()
+    .required()
+    .external(async (value: string, helpers) => {
+        const product = await catalogService.getProduct(value);
+        if (
+            !product ||
+            product.type !== "auto_renewable" ||
+            !product.stripe_price_id
+        ) {
+            return helpers.message({
+                external: `"productId" ${value} is not sold on the web`,
+            });
+        }
+        return value;
+    });
+
+const redirectUrl = Joi.string().uri({ scheme: ["https", "http"] });
+
+export const stripeCheckoutSchema = Joi.object({
+    userId: Joi.string().required(),
+    productId: stripeProductId,
+    successUrl: redirectUrl.required(),
+    cancelUrl: redirectUrl.required(),
+});
+
+export const stripePortalSchema = Joi.object({
+    userId: Joi.string().required(),
+    returnUrl: redirectUrl.required(),
 });
 
 export const validateWebhookSchema = Joi.object({
@@ -0,0 +1,846 @@
+import { Router } from "express";
+import { ExtendReasonCode } from "@apple/app-store-server-library";
+import {
+    authenticateAPI,
+    requireScope,
+    requireStaff,
+    AuthenticatedRequest,
+} from "@/middleware/auth";
+import { RATE_LIMITS, rateLimit } from "@/middleware/security";
+import {
+    createApiKeySchema,
+    entitlementGrantSchema,
+    oneTimeUnlockSchema,
+    reconcileSchema,
+    renewalExtensionSchema,
+    rotateApiKeySchema,
+    validate,
+} from "@/middleware/validation";
+import { apiKeyService } from "@/services/apikeys";
+import { appStoreService } from "@/services/appstore";
+import { auditService } from "@/services/audit";
+import { databaseService } from "@/services/database";
+import { entitlementService } from "@/services/entitlements";
+import { reconciliationService } from "@/services/reconciliation";
+import {
+    ApiKeyRecord,
+    ApiKeyScope,
+    AppleEnvironment,
+    AuthenticatedApiKey,
+    Entitlement,
+    RenewalExtensionRequestRecord,
+} from "@/types";
+import logger from "@/utils/logger";
+
+const router = Router();
+
+// Apply authentication middleware to all routes. Only personal keys are
+// accepted, never the legacy API_KEY, and each route requires the `admin`
+// or `support` scope. The key's owner is the audit log's actor.
+router.use(authenticateAPI);
+router.use(requireStaff);
+router.use(rateLimit(RATE_LIMITS.admin));
+
+const getActor = (req: AuthenticatedRequest) =>
+    req.apiKey as AuthenticatedApiKey & { owner: string };
+
+const formatExtensionRequest = (request: RenewalExtensionRequestRecord) => ({
+    requestIdentifier: request.request_identifier,
+    scope: request.scope,
+    userId: request.user_id,
+    productId: request.product_id,
+    originalTransactionId: request.original_transaction_id,
+    extendByDays: request.extend_by_days,
+    extendReasonCode: request.extend_reason_code,
+    storefrontCountryCodes: request.storefront_country_codes,
+    environment: request.environment,
+    status: request.status,
+    succeededCount: request.succeeded_count,
+    failedCount: request.failed_count,
+    effectiveDate: request.effective_date,
+    error: request.error,
+    completedAt: request.completed_at,
+    createdAt: request.created_at,
+});
+
+// Never includes the key or its hash
+const formatApiKey = (apiKey: ApiKeyRecord) => ({
+    id: apiKey.id,
+    name: apiKey.name,
+    prefix: apiKey.key_prefix,
+    scopes: apiKey.scopes,
+    owner: apiKey.owner,
+    expiresAt: apiKey.expires_at,
+    revokedAt: apiKey.revoked_at,
+    lastUsedAt: apiKey.last_used_at,
+    createdAt: apiKey.created_at,
+});
+
+/**
+ * POST /api/admin/renewal-extensions
+ * Extend renewal dates for one user's subscriptions or every active
+ * subscriber of a product
+ */
+router.post(
+    "/renewal-extensions",
+    requireScope("admin"),
+    validate(renewalExtensionSchema),
+    async (req, res): Promise<void> => {
+        try {
+            const {
+                userId,
+                productId,
+                extendByDays,
+                extendReasonCode,
+                storefrontCountryCodes,
+                environment,
+            } = req.body as {
+                userId?: string;
+                productId?: string;
+                extendByDays: number;
+                extendReasonCode: ExtendReasonCode;
+                storefrontCountryCodes?: string[];
+                environment?: AppleEnvironment;
+            };
+
+            logger.info("Renewal extension request:", {
+                userId,
+                productId,
+                extendByDays,
+                extendReasonCode,
+            });
+
+            if (userId) {
+                const profile = await databaseService.getUserProfile(userId);
+                if (!profile) {
+                    res.status(404).json({
+                        success: false,
+                        error: "User not found",
+                    });
+                    return;
+                }
+
+                const requests = await appStoreService.extendRenewalDateForUser(
+                    userId,
+                    extendByDays,
+                    extendReasonCode
+                );
+
+                await auditService.record(
+                    getActor(req),
+                    "renewal_extension.user",
+                    { type: "user", id: userId },
+                    auditService.diff(null, { extendByDays, extendReasonCode })
+                );
+
+                res.json({
+                    success: requests.some(
+                        (request) => request.status === "completed"
+                    ),
+                    data: {
+                        requests: requests.map(formatExtensionRequest),
+                    },
+                    ...(requests.length === 0 && {
+                        error: "No active subscriptions to extend",
+                    }),
+                });
+                return;
+            }
+
+            const request = await appStoreService.extendRenewalDateForProduct(
+                productId!,
+                extendByDays,
+                extendReasonCode,
+                storefrontCountryCodes,
+                environment
+            );
+
+            await auditService.record(
+                getActor(req),
+                "renewal_extension.product",
+                { type: "product", id: productId! },
+                auditService.diff(null, {
+                    extendByDays,
+                    extendReasonCode,
+                    storefrontCountryCodes,
+                    requestIdentifier: request?.request_identifier,
+                })
+            );
+
+            res.status(202).json({
+                success: true,
+                data: {
+                    requests: request ? [formatExtensionRequest(request)] : [],
+                },
+            });
+        } catch (error) {
+            logger.error("Renewal extension error:", error);
+            res.status(500).json({
+                success: false,
+                error: "Internal server error",
+            });
+        }
+    }
+);
+
+/**
+ * GET /api/admin/renewal-extensions/:requestIdentifier
+ * Status of an extension request, polling Apple for mass extensions
+ */
+router.get(
+    "/renewal-extensions/:requestIdentifier",
+    requireScope("admin"),
+    async (req, res): Promise<void> => {
+        try {
+            const { requestIdentifier } = req.params;
+
+            const request =
+                await appStoreService.getRenewalExtensionStatus(
+                    requestIdentifier
+                );
+
+            if (!request) {
+                res.status(404).json({
+                    success: false,
+                    error: "Extension request not found",
+                });
+                return;
+            }
+
+            res.json({
+                success: true,
+                data: formatExtensionRequest(request),
+            });
+        } catch (error) {
+            logger.error("Renewal extension status error:", error);
+            res.status(500).json({
+                success: false,
+                error: "Internal server error",
+            });
+        }
+    }
+);
+
+/**
+ * GET /api/admin/refunds/:userId
+ * Refunded transactions Apple has on record for the user
+ */
+router.get(
+    "/refunds/:userId",
+    requireScope("admin"),
+    async (req, res): Promise<void> => {
+        try {
+            const { userId } = req.params;
+
+            const refunds = await appStoreService.getRefundHistory(userId);
+
+            res.json({
+                success: true,
+                data: {
+                    refunds: refunds.map((transaction) => ({
+                        transactionId: transaction.transactionId,
+                        originalTransactionId:
+                            transaction.originalTransactionId,
+                        productId: transaction.productId,
+                        type: transaction.type,
+                        price: transaction.price,
+                        currency: transaction.currency,
+                        purchaseDate: transaction.purchaseDate
+                            ? new Date(transaction.purchaseDate).toISOString()
+                            : undefined,
+                        revocationDate: transaction.revocationDate
+                            ? new Date(transaction.revocationDate).toISOString()
+                            : undefined,
+                        revocationReason: transaction.revocationReason,
+                    })),
+                },
+            });
+        } catch (error) {
+            logger.error("Refund history error:", error);
+            res.status(500).json({
+                success: false,
+                error: "Internal server error",
+            });
+        }
+    }
+);
+
+/**
+ * POST /api/admin/reconcile
+ * Check recently changed and expiring subscriptions against Apple now.
+ * Pass `dryRun: true` to only report the drift.
+ */
+router.post(
+    "/reconcile",
+    requireScope("admin"),
+    validate(reconcileSchema),
+    async (req, res): Promise<void> => {
+        try {
+            const { dryRun = false } = req.body as { dryRun?: boolean };
+
+            logger.info("Reconciliation requested:", { dryRun });
+
+            const report = await reconciliationService.run(dryRun);
+
+            if (!report) {
+                res.status(409).json({
+                    success: false,
+                    error: "Reconciliation already running",
+                });
+                return;
+            }
+
+            if (!dryRun) {
+                await auditService.record(
+                    getActor(req),
+                    "reconcile.run",
+                    { type: "subscriptions", id: "all" },
+                    auditService.diff(null, {
+                        corrections: report.corrections.length,
+                    })
+                );
+            }
+
+            res.json({
+                success: true,
+                data: report,
+            });
+        } catch (error) {
+            logger.error("Reconciliation error:", error);
+            res.status(500).json({
+                success: false,
+                error: "Internal server error",
+            });
+        }
+    }
+);
+
+/**
+ * GET /api/admin/users/:userId
+ * Everything support needs to answer "why am I not premium?": the profile,
+ * subscriptions, billed transactions and grants as stored, plus the
+ * premium status and entitlements computed from them
+ */
+router.get(
+    "/users/:userId",
+    requireScope("support"),
+    async (req, res): Promise<void> => {
+        try {
+            const { userId } = req.params;
+
+            const profile = await databaseService.getUserProfile(userId);
+            if (!profile) {
+                res.status(404).json({
+                    success: false,
+                    error: "User not found",
+                });
+                return;
+            }
+
+            const [subscriptions, transactions, grants, premium, entitlements] =
+                await Promise.all([
+                    databaseService.getActiveSubscriptions(userId),
+                    databaseService.getTransactionHistory(userId),
+                    databaseService.getEntitlementGrants(userId),
+                    databaseService.getUserPremiumStatus(userId),
+                    entitlementService.getActiveEntitlements(userId),
+                ]);
+
+            await auditService.record(getActor(req), "user.view", {
+                type: "user",
+                id: userId,
+            });
+
+            res.json({
+                success: true,
+                data: {
+                    profile,
+                    premium,
+                    entitlements,
+                    subscriptions,
+                    transactions,
+                    grants,
+                },
+            });
+        } catch (error) {
+            logger.error("Admin user lookup error:", error);
+            res.status(500).json({
+                success: false,
+                error: "Internal server error",
+            });
+        }
+    }
+);
+
+/**
+ * POST /api/admin/users/:userId/sync
+ * Sync the user's subscription status and transactions with Apple. The
+ * profile is left alone if Apple can't be reached.
+ */
+router.post(
+    "/users/:userId/sync",
+    requireScope("support"),
+    async (req, res): Promise<void> => {
+        try {
+            const { userId } = req.params;
+
+            const profile = await databaseService.getUserProfile(userId);
+            if (!profile) {
+                res.status(404).json({
+                    success: false,
+                    error: "User not found",
+                });
+                return;
+            }
+
+            const [status, transactionsSynced] = await Promise.all([
+                appStoreService.getSubscriptionStatus(userId),
+                appStoreService.syncTransactionHistory(userId),
+            ]);
+
+            if (status.lookupFailed) {
+                res.status(502).json({
+                    success: false,
+                    error: "Could not get subscription status from Apple",
+                });
+                return;
+            }
+
+            // Keeps the user subscribed while a premium grant is active
+            const updated = await databaseService.updateUserSubscriptionStatus(
+                userId,
+                status.active
+            );
+            const synced = updated
+                ? await databaseService.getUserProfile(userId)
+                : null;
+            if (!synced) {
+                res.status(500).json({
+                    success: false,
+                    error: "Failed to update subscription status",
+                });
+                return;
+            }
+
+            await auditService.record(
+                getActor(req),
+                "user.sync",
+                { type: "user", id: userId },
+                auditService.diff(
+                    { subscribed: profile.subscribed },
+                    { subscribed: synced.subscribed }
+                )
+            );
+
+            res.json({
+                success: true,
+                data: {
+                    subscribed: synced.subscribed,
+                    subscriptionActive: status.active,
+                    status: status.status,
+                    expiresDate: status.expiresDate,
+                    transactionsSynced,
+                },
+            });
+        } catch (error) {
+            logger.error("Admin user sync error:", error);
+            res.status(500).json({
+                success: false,
+                error: "Internal server error",
+            });
+        }
+    }
+);
+
+/**
+ * POST /api/admin/users/:userId/one-time-unlock
+ * Grant or revoke the lifetime unlock by hand
+ */
+router.post(
+    "/users/:userId/one-time-unlock",
+    requireScope("support"),
+    validate(oneTimeUnlockSchema),
+    async (req, res): Promise<void> => {
+        try {
+            const { userId } = req.params as { userId: string };
+            const { unlocked, reason } = req.body as {
+                unlocked: boolean;
+                reason: string;
+            };
+
+            const profile = await databaseService.getUserProfile(userId);
+            if (!profile) {
+                res.status(404).json({
+                    success: false,
+                    error: "User not found",
+                });
+                return;
+            }
+
+            if (!(await databaseService.setOneTimeUnlock(userId, unlocked))) {
+                res.status(500).json({
+                    success: false,
+                    error: "Failed to update one-time unlock",
+                });
+                return;
+            }
+
+            await auditService.record(
+                getActor(req),
+                unlocked ? "one_time_unlock.grant" : "one_time_unlock.revoke",
+                { type: "user", id: userId },
+                auditService.diff(
+                    { one_time_unlock: profile.one_time_unlock },
+                    { one_time_unlock: unlocked }
+                ),
+                reason
+            );
+
+            res.json({
+                success: true,
+                data: { oneTimeUnlock: unlocked },
+            });
+        } catch (error) {
+            logger.error("Admin one-time unlock error:", error);
+            res.status(500).json({
+                success: false,
+                error: "Internal server error",
+            });
+        }
+    }
+);
+
+/**
+ * POST /api/admin/users/:userId/grants
+ * Give the user an entitlement from `startsAt` (default now) until
+ * `expiresAt`, e.g. comp premium
+ */
+router.post(
+    "/users/:userId/grants",
+    requireScope("support"),
+    validate(entitlementGrantSchema),
+    async (req, res): Promise<void> => {
+        try {
+            const { userId } = req.params as { userId: string };
+            const { entitlement, startsAt, expiresAt, reason } = req.body as {
+                entitlement: Entitlement;
+                startsAt?: string;
+                expiresAt: string;
+                reason: string;
+            };
+            const actor = getActor(req);
+
+            const profile = await databaseService.getUserProfile(userId);
+            if (!profile) {
+                res.status(404).json({
+                    success: false,
+                    error: "User not found",
+                });
+                return;
+            }
+
+            const grant = await entitlementService.grantEntitlement(
+                userId,
+                entitlement,
+                startsAt ? new Date(startsAt) : new Date(),
+                new Date(expiresAt),
+                reason,
+                actor.owner
+            );
+
+            if (!grant) {
+                res.status(500).json({
+                    success: false,
+                    error: "Failed to create grant",
+                });
+                return;
+            }
+
+            await auditService.record(
+                actor,
+                "grant.create",
+                { type: "user", id: userId },
+                auditService.diff(null, {
+                    grantId: grant.id,
+                    entitlement,
+                    startsAt: grant.starts_at,
+                    expiresAt: grant.expires_at,
+                }),
+                reason
+            );
+
+            res.status(201).json({
+                success: true,
+                data: grant,
+            });
+        } catch (error) {
+            logger.error("Admin grant error:", error);
+            res.status(500).json({
+                success: false,
+                error: "Internal server error",
+            });
+        }
+    }
+);
+
+/**
+ * DELETE /api/admin/users/:userId/grants/:grantId
+ * Revoke a grant before it expires
+ */
+router.delete(
+    "/users/:userId/grants/:grantId",
+    requireScope("support"),
+    async (req, res): Promise<void> => {
+        try {
+            const { userId, grantId } = req.params;
+            const actor = getActor(req);
+
+            const grant = await entitlementService.revokeGrant(
+                grantId,
+                userId,
+                actor.owner
+            );
+
+            if (!grant) {
+                res.status(404).json({
+                    success: false,
+                    error: "Grant not found or already revoked",
+                });
+                return;
+            }
+
+            await auditService.record(
+                actor,
+                "grant.revoke",
+                { type: "user", id: userId },
+                auditService.diff(
+                    { grantId, revokedAt: null },
+                    { grantId, revokedAt: grant.revoked_at }
+                )
+            );
+
+            res.json({
+                success: true,
+                data: grant,
+            });
+        } catch (error) {
+            logger.error("Admin grant revoke error:", error);
+            res.status(500).json({
+                success: false,
+                error: "Internal server error",
+            });
+        }
+    }
+);
+
+/**
+ * GET /api/admin/audit-log
+ * Recent admin actions, optionally for one target (`?targetId=`)
+ */
+router.get(
+    "/audit-log",
+    requireScope("admin"),
+    async (req, res): Promise<void> => {
+        try {
+            const targetId = req.query.targetId as string | undefined;
+            const limit = Math.min(
+                parseInt((req.query.limit as string) || "50", 10) || 50,
+                200
+            );
+
+            const entries = await databaseService.getAuditLog(targetId, limit);
+
+            res.json({
+                success: true,
+                data: {
+                    entries: entries.map((entry) => ({
+                        actor: entry.actor,
+                        actorKeyId: entry.actor_key_id,
+                        action: entry.action,
+                        targetType: entry.target_type,
+                        targetId: entry.target_id,
+                        diff: entry.diff,
+                        reason: entry.reason,
+                        createdAt: entry.created_at,
+                    })),
+                },
+            });
+        } catch (error) {
+            logger.error("Error fetching audit log:", error);
+            res.status(500).json({
+                success: false,
+                error: "Internal server error",
+            });
+        }
+    }
+);
+
+/**
+ * GET /api/admin/api-keys
+ * List API keys, including expired and revoked ones
+ */
+router.get(
+    "/api-keys",
+    requireScope("admin"),
+    async (req, res): Promise<void> => {
+        try {
+            const apiKeys = await databaseService.getApiKeys();
+
+            res.json({
+                success: true,
+                data: { apiKeys: apiKeys.map(formatApiKey) },
+            });
+        } catch (error) {
+            logger.error("Error listing API keys:", error);
+            res.status(500).json({
+                success: false,
+                error: "Internal server error",
+            });
+        }
+    }
+);
+
+/**
+ * POST /api/admin/api-keys
+ * Create an API key. The key is only ever shown in this response.
+ */
+router.post(
+    "/api-keys",
+    requireScope("admin"),
+    validate(createApiKeySchema),
+    async (req, res): Promise<void> => {
+        try {
+            const { name, scopes, owner, expiresAt } = req.body as {
+                name: string;
+                scopes: ApiKeyScope[];
+                owner?: string;
+                expiresAt?: string;
+            };
+
+            const created = await apiKeyService.createKey(
+                name,
+                scopes,
+                expiresAt ? new Date(expiresAt).toISOString() : null,
+                owner ?? null
+            );
+
+            if (!created) {
+                res.status(500).json({
+                    success: false,
+                    error: "Failed to create API key",
+                });
+                return;
+            }
+
+            await auditService.record(
+                getActor(req),
+                "api_key.create",
+                { type: "api_key", id: created.record.id },
+                auditService.diff(null, { name, scopes, owner, expiresAt })
+            );
+
+            res.status(201).json({
+                success: true,
+                data: { ...formatApiKey(created.record), key: created.key },
+            });
+        } catch (error) {
+            logger.error("Error creating API key:", error);
+            res.status(500).json({
+                success: false,
+                error: "Internal server error",
+            });
+        }
+    }
+);
+
+/**
+ * POST /api/admin/api-keys/:id/rotate
+ * Issue a replacement key. The old one keeps working for `overlapHours`
+ * (default 24) so clients can be updated before it stops.
+ */
+router.post(
+    "/api-keys/:id/rotate",
+    requireScope("admin"),
+    validate(rotateApiKeySchema),
+    async (req, res): Promise<void> => {
+        try {
+            const { id } = req.params as { id: string };
+            const { overlapHours = 24 } = req.body as {
+                overlapHours?: number;
+            };
+
+            const rotated = await apiKeyService.rotateKey(id, overlapHours);
+
+            if (!rotated) {
+                res.status(404).json({
+                    success: false,
+                    error: "API key not found or no longer active",
+                });
+                return;
+            }
+
+            await auditService.record(
+                getActor(req),
+                "api_key.rotate",
+                { type: "api_key", id },
+                auditService.diff(null, {
+                    replacementId: rotated.record.id,
+                    overlapHours,
+                })
+            );
+
+            res.status(201).json({
+                success: true,
+                data: { ...formatApiKey(rotated.record), key: rotated.key },
+            });
+        } catch (error) {
+            logger.error("Error rotating API key:", error);
+            res.status(500).json({
+                success: false,
+                error: "Internal server error",
+            });
+        }
+    }
+);
+
+/**
+ * DELETE /api/admin/api-keys/:id
+ * Revoke an API key immediately
+ */
+router.delete(
+    "/api-keys/:id",
+    requireScope("admin"),
+    async (req, res): Promise<void> => {
+        try {
+            const { id } = req.params;
+
+            const revoked = await apiKeyService.revokeKey(id);
+
+            if (!revoked) {
+                res.status(404).json({
+                    success: false,
+                    error: "API key not found",
+                });
+                return;
+            }
+
+            await auditService.record(getActor(req), "api_key.revoke", {
+                type: "api_key",
+                id,
+            });
+
+            res.json({
+                success: true,
+                message: "API key revoked",
+            });
+        } catch (error) {
+            logger.error("Error revoking API key:", error);
+            res.status(500).json({
+                success: false,
+                error: "Internal server error",
+            });
+        }
+    }
+);
+
+export default router;
@@ -1,5 +1,10 @@
 import { Router } from "express";
-import { authenticateAPI, AuthenticatedRequest } from "@/middleware/auth";
+import {
+    authenticateAPI,
+    requireScope,
+    AuthenticatedRequest,
+} from "@/middleware/auth";
+import { RATE_LIMITS, rateLimit } from "@/middleware/security";
 import { validate, validateTTSSchema } from "@/middleware/validation";
 import { cacheService } from "@/services/cache";
 import logger from "@/utils/logger";
@@ -8,6 +13,8 @@ const router = Router();
 
 // Apply authentication middleware to all routes
 router.use(authenticateAPI);
+router.use(requireScope("tts:synthesize"));
+router.use(rateLimit(RATE_LIMITS.tts));
 
 const ELEVENLABS_API_URL = "https://api.elevenlabs.io/v1";
 
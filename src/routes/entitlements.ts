@@ -0,0 +1,48 @@
+import { Router } from "express";
+import {
+    authenticateAPI,
+    authenticateUser,
+    requireScope,
+    requireSelf,
+} from "@/middleware/auth";
+import { RATE_LIMITS, rateLimit } from "@/middleware/security";
+import { entitlementService } from "@/services/entitlements";
+import logger from "@/utils/logger";
+
+const router = Router();
+
+// Apply authentication middleware to all routes
+router.use(authenticateAPI);
+router.use(requireScope("subscriptions:read"));
+router.use(authenticateUser);
+router.use(rateLimit(RATE_LIMITS.subscriptions));
+
+/**
+ * GET /api/entitlements/:userId
+ * List the user's active entitlements with their source and expiry
+ */
+router.get("/:userId", requireSelf, async (req, res): Promise<void> => {
+    try {
+        const { userId } = req.params;
+
+        logger.info("Entitlements request:", { userId });
+
+        const entitlements =
+            await entitlementService.getActiveEntitlements(userId);
+
+        res.json({
+            success: true,
+            data: {
+                entitlements,
+            },
+        });
+    } catch (error) {
+        logger.error("Entitlements error:", error);
+        res.status(500).json({
+            success: false,
+            error: "Internal server error",
+        });
+    }
+});
+
+export default router;
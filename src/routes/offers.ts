@@ -0,0 +1,127 @@
+import { Router } from "express";
+import {
+    authenticateAPI,
+    authenticateUser,
+    requireScope,
+    requireSelf,
+    requireStaff,
+} from "@/middleware/auth";
+import { RATE_LIMITS, rateLimit } from "@/middleware/security";
+import { offerSignatureSchema, validate } from "@/middleware/validation";
+import { appStoreService } from "@/services/appstore";
+import { databaseService } from "@/services/database";
+import logger from "@/utils/logger";
+
+const router = Router();
+
+// Apply authentication middleware to all routes
+router.use(authenticateAPI);
+
+/**
+ * POST /api/offers/signature
+ * Sign a promotional offer for StoreKit to present to the user
+ */
+router.post(
+    "/signature",
+    requireScope("offers:sign"),
+    authenticateUser,
+    rateLimit(RATE_LIMITS.offers),
+    requireSelf,
+    validate(offerSignatureSchema),
+    async (req, res): Promise<void> => {
+        try {
+            const { userId, productId, offerId } = req.body as {
+                userId: string;
+                productId: string;
+                offerId: string;
+            };
+
+            logger.info("Offer signature request:", {
+                userId,
+                productId,
+                offerId,
+            });
+
+            const profile = await databaseService.getUserProfile(userId);
+            if (!profile) {
+                res.status(404).json({
+                    success: false,
+                    error: "User not found",
+                });
+                return;
+            }
+
+            // The app sets the user id as appAccountToken on every purchase
+            const signature = appStoreService.createPromotionalOfferSignature(
+                productId,
+                offerId,
+                userId
+            );
+
+            res.json({
+                success: true,
+                data: signature,
+            });
+        } catch (error) {
+            logger.error("Offer signature error:", error);
+            res.status(500).json({
+                success: false,
+                error: "Internal server error",
+            });
+        }
+    }
+);
+
+/**
+ * GET /api/offers/redemptions
+ * List offer redemptions, optionally filtered by offer or user
+ */
+router.get(
+    "/redemptions",
+    requireStaff,
+    requireScope("admin"),
+    async (req, res): Promise<void> => {
+        try {
+            const offerIdentifier = req.query.offerIdentifier as
+                string | undefined;
+            const userId = req.query.userId as string | undefined;
+            const limit = Math.min(
+                parseInt((req.query.limit as string) || "50", 10) || 50,
+                200
+            );
+
+            const redemptions = await databaseService.getOfferRedemptions(
+                {
+                    ...(offerIdentifier && { offerIdentifier }),
+                    ...(userId && { userId }),
+                },
+                limit
+            );
+
+            res.json({
+                success: true,
+                data: {
+                    redemptions: redemptions.map((redemption) => ({
+                        userId: redemption.user_id,
+                        transactionId: redemption.transaction_id,
+                        originalTransactionId:
+                            redemption.original_transaction_id,
+                        productId: redemption.product_id,
+                        offerType: redemption.offer_type,
+                        offerIdentifier: redemption.offer_identifier,
+                        environment: redemption.environment,
+                        redeemedAt: redemption.redeemed_at,
+                    })),
+                },
+            });
+        } catch (error) {
+            logger.error("Offer redemptions error:", error);
+            res.status(500).json({
+                success: false,
+                error: "Internal server error",
+            });
+        }
+    }
+);
+
+export default router;
@@ -0,0 +1,47 @@
+import { Router } from "express";
+import { authenticateAPI, requireScope } from "@/middleware/auth";
+import { RATE_LIMITS, rateLimit } from "@/middleware/security";
+import { catalogService } from "@/services/catalog";
+import logger from "@/utils/logger";
+
+const router = Router();
+
+// Apply authentication middleware to all routes
+router.use(authenticateAPI);
+router.use(requireScope("products:read"));
+router.use(rateLimit(RATE_LIMITS.ip));
+
+/**
+ * GET /api/products
+ * List the products currently for sale
+ */
+router.get("/", async (req, res): Promise<void> => {
+    try {
+        const products = await catalogService.getActiveProducts();
+
+        res.json({
+            success: true,
+            data: {
+                products: products.map((product) => ({
+                    productId: product.product_id,
+                    type: product.type,
+                    subscriptionGroup: product.subscription_group,
+                    duration: product.duration,
+                    entitlements: product.entitlements,
+                    displayName: product.display_name,
+                    description: product.description,
+                    situationCredits: product.situation_credits,
+                    sortOrder: product.sort_order,
+                })),
+            },
+        });
+    } catch (error) {
+        logger.error("Product catalog error:", error);
+        res.status(500).json({
+            success: false,
+            error: "Internal server error",
+        });
+    }
+});
+
+export default router;
@@ -0,0 +1,138 @@
+import { Router } from "express";
+import {
+    authenticateAPI,
+    authenticateUser,
+    requireScope,
+    requireSelf,
+} from "@/middleware/auth";
+import { RATE_LIMITS, rateLimit } from "@/middleware/security";
+import {
+    stripeCheckoutSchema,
+    stripePortalSchema,
+    validate,
+} from "@/middleware/validation";
+import { catalogService } from "@/services/catalog";
+import { databaseService } from "@/services/database";
+import { stripeService } from "@/services/stripe";
+import logger from "@/utils/logger";
+
+const router = Router();
+
+// Apply authentication middleware to all routes
+router.use(authenticateAPI);
+router.use(requireScope("subscriptions:write"));
+router.use(authenticateUser);
+router.use(rateLimit(RATE_LIMITS.checkout));
+
+/**
+ * POST /api/stripe/checkout
+ * Create a Stripe Checkout session for a web subscription
+ */
+router.post(
+    "/checkout",
+    requireSelf,
+    validate(stripeCheckoutSchema),
+    async (req, res): Promise<void> => {
+        try {
+            const { userId, productId, successUrl, cancelUrl } = req.body as {
+                userId: string;
+                productId: string;
+                successUrl: string;
+                cancelUrl: string;
+            };
+
+            logger.info("Stripe checkout request:", { userId, productId });
+
+            if (!stripeService.isConfigured()) {
+                res.status(503).json({
+                    success: false,
+                    error: "Web checkout is not available",
+                });
+                return;
+            }
+
+            const profile = await databaseService.getUserProfile(userId);
+            if (!profile) {
+                res.status(404).json({
+                    success: false,
+                    error: "User not found",
+                });
+                return;
+            }
+
+            // The validation schema guarantees the product has a Stripe price
+            const product = (await catalogService.getProduct(productId))!;
+            const url = await stripeService.createCheckoutSession(
+                userId,
+                product,
+                successUrl,
+                cancelUrl
+            );
+
+            res.json({
+                success: true,
+                data: { url },
+            });
+        } catch (error) {
+            logger.error("Stripe checkout error:", error);
+            res.status(500).json({
+                success: false,
+                error: "Internal server error",
+            });
+        }
+    }
+);
+
+/**
+ * POST /api/stripe/portal
+ * Create a Stripe customer portal session for managing a web subscription
+ */
+router.post(
+    "/portal",
+    requireSelf,
+    validate(stripePortalSchema),
+    async (req, res): Promise<void> => {
+        try {
+            const { userId, returnUrl } = req.body as {
+                userId: string;
+                returnUrl: string;
+            };
+
+            logger.info("Stripe portal request:", { userId });
+
+            if (!stripeService.isConfigured()) {
+                res.status(503).json({
+                    success: false,
+                    error: "Web checkout is not available",
+                });
+                return;
+            }
+
+            const url = await stripeService.createPortalSession(
+                userId,
+                returnUrl
+            );
+
+            if (!url) {
+                res.status(404).json({
+                    success: false,
+                    error: "No web purchases for this user",
+                });
+                return;
+            }
+
+            res.json({
+                success: true,
+                data: { url },
+            });
+        } catch (error) {
+            logger.error("Stripe portal error:", error);
+            res.status(500).json({
+                success: false,
+                error: "Internal server error",
+            });
+        }
+    }
+);
+
+export default router;
@@ -1,21 +1,29 @@
 import { Router } from 'express';
 import { appStoreService } from '@/services/appstore';
 import { databaseService } from '@/services/database';
-import { authenticateAPI, extractUserId, AuthenticatedRequest } from '@/middleware/auth';
+import { googlePlayService } from '@/services/googleplay';
+import { authenticateAPI, authenticateUser, requireScope, requireSelf, AuthenticatedRequest } from '@/middleware/auth';
+import { RATE_LIMITS, rateLimit } from '@/middleware/security';
 import { validate, validateReceiptSchema } from '@/middleware/validation';
 import logger from '@/utils/logger';
 import { APIResponse, ValidationRequest } from '@/types';
 
 const router = Router();
 
-// Apply authentication middleware to all routes
+// Apply authentication middleware to all routes; every route is about the
+// signed-in user's own subscriptions
 router.use(authenticateAPI);
+router.use(authenticateUser);
+router.use(rateLimit(RATE_LIMITS.subscriptions));
 
 /**
  * POST /api/subscriptions/validate
- * Validate an App Store receipt and update subscription status
+ * Validate an App Store receipt or Google Play purchase token and update
+ * subscription status
  */
 router.post('/validate',
+  requireScope('subscriptions:write'),
+  requireSelf,
   validate(validateReceiptSchema),
   async (req: AuthenticatedRequest, res): Promise<void> => {
     try {
@@ -23,15 +31,21 @@ router.post('/validate',
 
       logger.info('Receipt validation request received:', {
         userId: validationRequest.userId,
-        productId: validationRequest.productId
+        productId: validationRequest.productId,
+        platform: validationRequest.platform
       });
 
-      const result = await appStoreService.validateReceipt(validationRequest);
+      const result = validationRequest.platform === 'google_play'
+        ? await googlePlayService.validatePurchase(validationRequest)
+        : await appStoreService.validateReceipt(validationRequest);
 
       res.json({
         success: result.success,
         data: {
           subscriptionActive: result.subscriptionActive,
+          productType: result.productType,
+          entitlementGranted: result.entitlementGranted,
+          ownershipType: result.ownershipType,
           transactionId: result.transactionId,
           expiresDate: result.expiresDate
         },
@@ -52,6 +66,8 @@ router.post('/validate',
  * Get current subscription status for a user
  */
 router.get('/status/:userId',
+  requireScope('subscriptions:read'),
+  requireSelf,
   async (req, res): Promise<void> => {
     try {
       const { userId } = req.params;
@@ -69,7 +85,12 @@ router.get('/status/:userId',
           isPremium: premiumStatus.isPremium,
           reason: premiumStatus.reason,
           subscriptionActive: appStoreStatus.active,
-          expiresDate: appStoreStatus.expiresDate
+          status: appStoreStatus.status,
+          expiresDate: appStoreStatus.expiresDate,
+          gracePeriodExpiresDate: appStoreStatus.gracePeriodExpiresDate,
+          productId: appStoreStatus.latestTransaction?.productId,
+          autoRenewProductId: appStoreStatus.autoRenewProductId,
+          willAutoRenew: appStoreStatus.autoRenewStatus === 1
         }
       });
     } catch (error) {
@@ -84,16 +105,21 @@ router.get('/status/:userId',
 
 /**
  * GET /api/subscriptions/history/:userId
- * Get subscription history for a user
+ * Get subscription history for a user, including every billed transaction
  */
 router.get('/history/:userId',
+  requireScope('subscriptions:read'),
+  requireSelf,
   async (req, res): Promise<void> => {
     try {
       const { userId } = req.params;
 
       logger.info('Subscription history request:', { userId });
 
-      const subscriptions = await databaseService.getActiveSubscriptions(userId);
+      const [subscriptions, transactions] = await Promise.all([
+        databaseService.getActiveSubscriptions(userId),
+        databaseService.getTransactionHistory(userId)
+      ]);
 
       res.json({
         success: true,
@@ -105,6 +131,20 @@ router.get('/history/:userId',
             environment: sub.environment,
             purchasedAt: sub.purchased_at,
             createdAt: sub.created_at
+          })),
+          transactions: transactions.map(tx => ({
+            transactionId: tx.transaction_id,
+            originalTransactionId: tx.original_transaction_id,
+            productId: tx.product_id,
+            environment: tx.environment,
+            purchasedAt: tx.purchased_at,
+            expiresAt: tx.expires_at,
+            price: tx.price,
+            currency: tx.currency,
+            offerType: tx.offer_type,
+            offerIdentifier: tx.offer_identifier,
+            revocationDate: tx.revocation_date,
+            revocationReason: tx.revocation_reason
           }))
         }
       });
@@ -123,22 +163,45 @@ router.get('/history/:userId',
  * Manually sync subscription status with Apple's servers
  */
 router.post('/sync/:userId',
+  requireScope('subscriptions:write'),
+  requireSelf,
   async (req, res): Promise<void> => {
     try {
       const { userId } = req.params;
 
       logger.info('Manual subscription sync request:', { userId });
 
-      const status = await appStoreService.getSubscriptionStatus(userId);
+      const [status, transactionsSynced] = await Promise.all([
+        appStoreService.getSubscriptionStatus(userId),
+        appStoreService.syncTransactionHistory(userId)
+      ]);
+
+      // An unknown status would read as lapsed, so leave the profile as is
+      if (status.lookupFailed) {
+        res.status(502).json({
+          success: false,
+          error: 'Could not get subscription status from Apple'
+        });
+        return;
+      }
 
       // Update database based on current Apple status
-      await databaseService.updateUserSubscriptionStatus(userId, status.active);
+      const updated = await databaseService.updateUserSubscriptionStatus(userId, status.active);
+      if (!updated) {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to update subscription status'
+        });
+        return;
+      }
 
       res.json({
         success: true,
         data: {
           subscriptionActive: status.active,
+          status: status.status,
           expiresDate: status.expiresDate,
+          transactionsSynced,
           message: 'Subscription status synced successfully'
         }
       });
@@ -157,6 +220,8 @@ router.post('/sync/:userId',
  * Check if user has premium access (one-time unlock or active subscription)
  */
 router.get('/premium/:userId',
+  requireScope('subscriptions:read'),
+  requireSelf,
   async (req, res): Promise<void> => {
     try {
       const { userId } = req.params;
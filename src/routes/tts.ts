@@ -1,13 +1,23 @@
 import { Router } from "express";
-import { authenticateAPI, AuthenticatedRequest } from "@/middleware/auth";
+import {
+    authenticateAPI,
+    authenticateUser,
+    requireScope,
+    AuthenticatedRequest,
+} from "@/middleware/auth";
+import { RATE_LIMITS, rateLimit } from "@/middleware/security";
 import { validate, validateTTSSchema } from "@/middleware/validation";
 import { cacheService } from "@/services/cache";
+import { databaseService } from "@/services/database";
 import logger from "@/utils/logger";
 
 const router = Router();
 
 // Apply authentication middleware to all routes
 router.use(authenticateAPI);
+router.use(requireScope("tts:synthesize"));
+router.use(authenticateUser);
+router.use(rateLimit(RATE_LIMITS.tts));
 
 const OPENAI_API_URL = "https://api.openai.com/v1/audio/speech";
 const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
@@ -83,6 +93,9 @@ router.post(
                 emotion: emotion || "none",
             });
 
+            // Per-user usage feeds consumption reports for refund requests
+            databaseService.recordTTSUsage(req.userId!); // fire and forget
+
             // Check cache first (include emotion in cache key)
             const cachedAudio = await cacheService.getCachedTTS(
                 text,
@@ -1,9 +1,28 @@
+import { createHash, timingSafeEqual } from "crypto";
 import { Router } from "express";
 import { appStoreService } from "@/services/appstore";
+import { googlePlayService } from "@/services/googleplay";
+import { stripeService } from "@/services/stripe";
+import {
+    authenticateAPI,
+    requireScope,
+    requireStaff,
+    AuthenticatedRequest,
+} from "@/middleware/auth";
+import { RATE_LIMITS, rateLimit } from "@/middleware/security";
 import { validate, validateWebhookSchema } from "@/middleware/validation";
 import { appleTestNotifications } from "@/utils/apple-test-notifications";
+import { config } from "@/utils/config";
 import logger from "@/utils/logger";
-import { APIResponse, SupabaseWebhookPayload, UserProfile } from "@/types";
+import {
+    APIResponse,
+    GoogleDeveloperNotification,
+    NotificationEventStatus,
+    SupabaseWebhookPayload,
+    UserProfile,
+} from "@/types";
+import { auditService } from "@/services/audit";
+import { databaseService } from "@/services/database";
 import { discordService } from "@/services/discord";
 
 const router = Router();
@@ -69,6 +88,277 @@ router.post("/apple", async (req, res): Promise<void> => {
     }
 });
 
+/**
+ * POST /api/webhooks/google
+ * Handle Google Play Real-time Developer Notifications
+ *
+ * Google publishes notifications to a Cloud Pub/Sub topic; configure a push
+ * subscription on it with this URL and ?token=GOOGLE_PUBSUB_VERIFICATION_TOKEN.
+ * Pub/Sub redelivers any message that doesn't get a 2xx response.
+ */
+router.post("/google", async (req, res): Promise<void> => {
+    try {
+        if (
+            !config.google.pubsubVerificationToken ||
+            typeof req.query.token !== "string" ||
+            !timingSafeEqual(
+                createHash("sha256").update(req.query.token).digest(),
+                createHash("sha256")
+                    .update(config.google.pubsubVerificationToken)
+                    .digest()
+            )
+        ) {
+            logger.warn("Google webhook with invalid verification token", {
+                ip: req.ip,
+                userAgent: req.get("User-Agent"),
+            });
+
+            res.status(401).json({
+                success: false,
+                error: "Invalid verification token",
+            });
+            return;
+        }
+
+        const data = req.body?.message?.data;
+
+        if (!data || typeof data !== "string") {
+            logger.warn("Invalid Pub/Sub push payload received from Google", {
+                ip: req.ip,
+                messageId: req.body?.message?.messageId,
+            });
+
+            // Acknowledge so Pub/Sub doesn't redeliver a malformed message
+            res.status(200).json({
+                success: false,
+                error: "Invalid payload format",
+            });
+            return;
+        }
+
+        let notification: GoogleDeveloperNotification;
+        try {
+            notification = JSON.parse(
+                Buffer.from(data, "base64").toString("utf8")
+            ) as GoogleDeveloperNotification;
+            if (!notification || typeof notification !== "object") {
+                throw new Error("Message data is not a JSON object");
+            }
+        } catch (error) {
+            logger.warn("Unparseable Pub/Sub message received from Google", {
+                messageId: req.body.message.messageId,
+                error: (error as Error).message,
+            });
+
+            // Acknowledge so Pub/Sub doesn't redeliver a malformed message
+            res.status(200).json({
+                success: false,
+                error: "Invalid payload format",
+            });
+            return;
+        }
+
+        logger.info("Google webhook notification received", {
+            messageId: req.body.message.messageId,
+            eventTimeMillis: notification.eventTimeMillis,
+        });
+
+        const result =
+            await googlePlayService.handleDeveloperNotification(notification);
+
+        res.status(200).json({
+            success: true,
+            message: `Notification ${result}`,
+        });
+    } catch (error) {
+        logger.error("Google webhook processing error:", error);
+        res.status(500).json({
+            success: false,
+            error: "Internal server error",
+        });
+    }
+});
+
+/**
+ * POST /api/webhooks/stripe
+ * Handle Stripe webhook events for web subscriptions
+ *
+ * Add this URL as a webhook endpoint in the Stripe Dashboard with the
+ * checkout.session.completed, customer.subscription.* and invoice.paid
+ * events, and set STRIPE_WEBHOOK_SECRET to its signing secret.
+ * Stripe retries any event that doesn't get a 2xx response.
+ */
+router.post("/stripe", async (req, res): Promise<void> => {
+    try {
+        if (!stripeService.isConfigured()) {
+            res.status(503).json({
+                success: false,
+                error: "Stripe is not configured",
+            });
+            return;
+        }
+
+        const signature = req.get("Stripe-Signature");
+
+        if (!signature || !Buffer.isBuffer(req.body)) {
+            logger.warn("Invalid webhook payload received from Stripe", {
+                ip: req.ip,
+                userAgent: req.get("User-Agent"),
+            });
+
+            res.status(400).json({
+                success: false,
+                error: "Invalid payload format",
+            });
+            return;
+        }
+
+        let event;
+        try {
+            event = stripeService.constructWebhookEvent(req.body, signature);
+        } catch (error) {
+            logger.warn("Stripe webhook signature verification failed", {
+                ip: req.ip,
+                error: (error as Error).message,
+            });
+
+            res.status(400).json({
+                success: false,
+                error: "Invalid signature",
+            });
+            return;
+        }
+
+        const result = await stripeService.handleWebhookEvent(event);
+
+        res.status(200).json({
+            success: true,
+            message: `Event ${result}`,
+        });
+    } catch (error) {
+        logger.error("Stripe webhook processing error:", error);
+        res.status(500).json({
+            success: false,
+            error: "Internal server error",
+        });
+    }
+});
+
+/**
+ * GET /api/webhooks/apple/events
+ * List stored Apple notifications, optionally filtered by processing status
+ */
+router.get(
+    "/apple/events",
+    authenticateAPI,
+    requireStaff,
+    requireScope("admin"),
+    rateLimit(RATE_LIMITS.admin),
+    async (req, res): Promise<void> => {
+        try {
+            const status = req.query.status as
+                NotificationEventStatus | undefined;
+            if (
+                status &&
+                !["received", "processed", "ignored", "failed"].includes(status)
+            ) {
+                res.status(400).json({
+                    success: false,
+                    error: "Invalid status filter",
+                });
+                return;
+            }
+
+            const limit = Math.min(
+                parseInt((req.query.limit as string) || "50", 10) || 50,
+                200
+            );
+            const events = await databaseService.getNotificationEvents(
+                status,
+                limit
+            );
+
+            res.json({
+                success: true,
+                data: {
+                    events: events.map((event) => ({
+                        notificationUUID: event.notification_uuid,
+                        notificationType: event.notification_type,
+                        subtype: event.subtype,
+                        signedDate: event.signed_date,
+                        status: event.status,
+                        error: event.error,
+                        attempts: event.attempts,
+                        processedAt: event.processed_at,
+                        createdAt: event.created_at,
+                    })),
+                },
+            });
+        } catch (error) {
+            logger.error("Error listing notification events:", error);
+            res.status(500).json({
+                success: false,
+                error: "Internal server error",
+            });
+        }
+    }
+);
+
+/**
+ * POST /api/webhooks/apple/events/:notificationUUID/replay
+ * Re-process a stored Apple notification (e.g. one that failed)
+ */
+router.post(
+    "/apple/events/:notificationUUID/replay",
+    authenticateAPI,
+    requireStaff,
+    requireScope("admin"),
+    rateLimit(RATE_LIMITS.admin),
+    async (req, res): Promise<void> => {
+        try {
+            const { notificationUUID } = req.params as {
+                notificationUUID: string;
+            };
+
+            const before =
+                await databaseService.getNotificationEvent(notificationUUID);
+            const success = await appStoreService.replayNotification(
+                notificationUUID
+            );
+            const after =
+                await databaseService.getNotificationEvent(notificationUUID);
+
+            await auditService.record(
+                (req as AuthenticatedRequest).apiKey!,
+                "webhook.replay",
+                { type: "notification", id: notificationUUID },
+                auditService.diff(
+                    { status: before?.status, error: before?.error },
+                    { status: after?.status, error: after?.error }
+                )
+            );
+
+            if (success) {
+                res.json({
+                    success: true,
+                    message: "Notification replayed successfully",
+                });
+            } else {
+                res.status(500).json({
+                    success: false,
+                    error: "Failed to replay notification",
+                });
+            }
+        } catch (error) {
+            logger.error("Error replaying notification:", error);
+            res.status(500).json({
+                success: false,
+                error: "Internal server error",
+            });
+        }
+    }
+);
+
 /**
  * GET /api/webhooks/test
  * Test endpoint to verify webhook service is running
@@ -0,0 +1,53 @@
+/**
+ * Create an API key from the command line. This is how the first admin key
+ * is issued, since the admin API only accepts keys from the api_keys table.
+ * Support and admin keys need an owner, the person who will hold them.
+ *
+ * Usage: npm run create-api-key -- <name> <scope>[,<scope>...] [owner] [expiresAt]
+ */
+import { API_KEY_SCOPES, ApiKeyScope } from "@/types";
+import { apiKeyService } from "@/services/apikeys";
+
+async function main(): Promise<void> {
+    const [name, scopeList, owner, expiresAt] = process.argv.slice(2);
+    const scopes = (scopeList ?? "").split(",").filter(Boolean);
+    const isStaffKey = scopes.some(
+        (scope) => scope === "support" || scope === "admin"
+    );
+
+    if (
+        !name ||
+        scopes.length === 0 ||
+        !scopes.every((scope) =>
+            (API_KEY_SCOPES as readonly string[]).includes(scope)
+        ) ||
+        (isStaffKey && !owner)
+    ) {
+        console.error(
+            "Usage: npm run create-api-key -- <name> <scope>[,<scope>...] [owner] [expiresAt]"
+        );
+        console.error("Support and admin keys need an owner");
+        console.error(`Scopes: ${API_KEY_SCOPES.join(", ")}`);
+        process.exit(1);
+    }
+
+    const created = await apiKeyService.createKey(
+        name,
+        scopes as ApiKeyScope[],
+        expiresAt ?? null,
+        owner ?? null
+    );
+    if (!created) {
+        console.error("Failed to create API key");
+        process.exit(1);
+    }
+
+    console.log(`Created API key ${created.record.id} (${name})`);
+    console.log(created.key);
+    process.exit(0);
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+});
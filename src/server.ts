@@ -1,15 +1,22 @@
-import express from "express";
+import express, { Request } from "express";
 import cors from "cors";
 import helmet from "helmet";
 import { config } from "@/utils/config";
 import logger from "@/utils/logger";
 import { errorHandler, notFoundHandler } from "@/middleware/errorHandler";
-import { requestLogger, simpleRateLimit } from "@/middleware/security";
+import { RATE_LIMITS, rateLimit, requestLogger } from "@/middleware/security";
+import { expiryService } from "@/services/expiry";
+import { reconciliationService } from "@/services/reconciliation";
 
 // Import routes
 import subscriptionRoutes from "@/routes/subscriptions";
 import webhookRoutes from "@/routes/webhooks";
 import ttsRoutes from "@/routes/tts";
+import productRoutes from "@/routes/products";
+import entitlementRoutes from "@/routes/entitlements";
+import offerRoutes from "@/routes/offers";
+import adminRoutes from "@/routes/admin";
+import stripeRoutes from "@/routes/stripe";
 
 class Server {
     private app: express.Application;
@@ -42,24 +49,34 @@ class Server {
                         : true, // Allow all origins in development
                 credentials: true,
                 methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
-                allowedHeaders: [
-                    "Content-Type",
-                    "Authorization",
-                    "x-api-key",
-                    "x-user-id",
-                ],
+                allowedHeaders: ["Content-Type", "Authorization", "x-api-key"],
             })
         );
 
-        // Request parsing
+        // Request parsing. Stripe signs the raw body, so keep it unparsed
+        this.app.use(
+            "/api/webhooks/stripe",
+            express.raw({ type: "application/json" })
+        );
         this.app.use(express.json({ limit: "10mb" }));
         this.app.use(express.urlencoded({ extended: true, limit: "10mb" }));
 
         // Request logging
         this.app.use(requestLogger);
 
-        // Rate limiting (100 requests per 15 minutes per IP)
-        this.app.use(simpleRateLimit(100, 15 * 60 * 1000));
+        // Rate limiting per IP, except for the webhook receivers so bursts of
+        // store notifications aren't dropped. Every request is held to the
+        // anonymous limit until authentication accepts it, so made-up
+        // credentials don't get around it; routers add per-user and per-key
+        // limits after authentication.
+        const isExempt = (req: Request) =>
+            config.rateLimit.exemptPaths.includes(req.path);
+        this.app.use(
+            rateLimit(RATE_LIMITS.anonymous, {
+                skip: isExempt,
+                countIf: (req) => !req.apiKey && !req.userId,
+            })
+        );
     }
 
     private setupRoutes(): void {
@@ -78,6 +95,11 @@ class Server {
         this.app.use("/api/subscriptions", subscriptionRoutes);
         this.app.use("/api/webhooks", webhookRoutes);
         this.app.use("/api/tts", ttsRoutes);
+        this.app.use("/api/products", productRoutes);
+        this.app.use("/api/entitlements", entitlementRoutes);
+        this.app.use("/api/offers", offerRoutes);
+        this.app.use("/api/admin", adminRoutes);
+        this.app.use("/api/stripe", stripeRoutes);
 
         // Root endpoint
         this.app.get("/", (req, res) => {
@@ -93,9 +115,35 @@ class Server {
                     "POST /api/subscriptions/sync/:userId - Sync subscription status",
                     "GET /api/subscriptions/premium/:userId - Check premium access",
                     "POST /api/webhooks/apple - Apple Server-to-Server notifications",
+                    "POST /api/webhooks/google - Google Play Real-time Developer Notifications",
+                    "POST /api/webhooks/stripe - Stripe subscription events",
+                    "GET /api/webhooks/apple/events - List stored Apple notifications",
+                    "POST /api/webhooks/apple/events/:notificationUUID/replay - Replay a stored Apple notification",
                     "GET /api/webhooks/test - Test webhook service",
+                    "POST /api/webhooks/apple/test - Ask Apple for a test notification",
+                    "GET /api/webhooks/apple/test/:token - Test notification status",
                     "POST /api/webhooks/supabase/profile - Supabase profile insert notifications",
                     "POST /api/tts/synthesize - Convert text to speech using ElevenLabs",
+                    "GET /api/products - List products for sale",
+                    "GET /api/entitlements/:userId - List active entitlements",
+                    "POST /api/offers/signature - Sign a promotional offer",
+                    "GET /api/offers/redemptions - List offer redemptions",
+                    "POST /api/admin/renewal-extensions - Extend subscription renewal dates",
+                    "GET /api/admin/renewal-extensions/:requestIdentifier - Renewal extension status",
+                    "GET /api/admin/refunds/:userId - Apple refund history for a user",
+                    "POST /api/admin/reconcile - Reconcile subscriptions with Apple",
+                    "GET /api/admin/users/:userId - Support view of a user",
+                    "POST /api/admin/users/:userId/sync - Sync a user with Apple",
+                    "POST /api/admin/users/:userId/one-time-unlock - Grant or revoke the lifetime unlock",
+                    "POST /api/admin/users/:userId/grants - Grant an entitlement for a period",
+                    "DELETE /api/admin/users/:userId/grants/:grantId - Revoke a grant",
+                    "GET /api/admin/audit-log - Recent admin actions",
+                    "GET /api/admin/api-keys - List API keys",
+                    "POST /api/admin/api-keys - Create an API key",
+                    "POST /api/admin/api-keys/:id/rotate - Rotate an API key",
+                    "DELETE /api/admin/api-keys/:id - Revoke an API key",
+                    "POST /api/stripe/checkout - Start a web subscription checkout",
+                    "POST /api/stripe/portal - Stripe customer portal link",
                 ],
             });
         });
@@ -125,6 +173,9 @@ class Server {
                 appleBundleId: config.apple.bundleId,
                 appleEnvironment: config.apple.environment,
             });
+
+            reconciliationService.start();
+            expiryService.start();
         });
 
         // Graceful shutdown
@@ -134,6 +185,8 @@ class Server {
 
     private shutdown(): void {
         logger.info("Received shutdown signal, closing server...");
+        reconciliationService.stop();
+        expiryService.stop();
         process.exit(0);
     }
 }
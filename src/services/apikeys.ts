@@ -0,0 +1,212 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { config } from "@/utils/config";
+import logger from "@/utils/logger";
+import { ApiKeyRecord, ApiKeyScope, AuthenticatedApiKey } from "@/types";
+import { databaseService } from "./database";
+
+// Keys look like ck_<12 hex prefix>_<secret>
+const KEY_PATTERN = /^ck_([0-9a-f]{12})_[A-Za-z0-9_-]{43}$/;
+// Revocations and expiry changes reach other instances within this long
+const CACHE_TTL_MS = 60 * 1000;
+// last_used_at is only written this often per key
+const LAST_USED_INTERVAL_MS = 5 * 60 * 1000;
+
+// The legacy API_KEY env var ships inside the iOS app, so it only gets the
+// client scopes. Support and admin access need a key from api_keys.
+const LEGACY_KEY: AuthenticatedApiKey = {
+    id: "env",
+    name: "API_KEY",
+    owner: null,
+    scopes: [
+        "products:read",
+        "subscriptions:read",
+        "subscriptions:write",
+        "offers:sign",
+        "tts:synthesize",
+    ],
+};
+
+function hashKey(key: string): Buffer {
+    return createHash("sha256").update(key).digest();
+}
+
+class ApiKeyService {
+    private keys = new Map<
+        string,
+        { record: ApiKeyRecord; loadedAt: number }
+    >();
+    private lastUsedWrites = new Map<string, number>();
+
+    /**
+     * Look up the key sent by a client. Null when it is unknown, revoked
+     * or expired.
+     */
+    async authenticate(key: string): Promise<AuthenticatedApiKey | null> {
+        const keyHash = hashKey(key);
+
+        if (
+            config.security.apiKey &&
+            timingSafeEqual(keyHash, hashKey(config.security.apiKey))
+        ) {
+            return LEGACY_KEY;
+        }
+
+        const prefix = KEY_PATTERN.exec(key)?.[1];
+        if (!prefix) {
+            return null;
+        }
+
+        const record = await this.getByPrefix(prefix);
+        if (
+            !record ||
+            !timingSafeEqual(keyHash, Buffer.from(record.key_hash, "hex"))
+        ) {
+            return null;
+        }
+
+        if (record.revoked_at || this.isExpired(record)) {
+            logger.warn("Revoked or expired API key used", {
+                id: record.id,
+                name: record.name,
+            });
+            return null;
+        }
+
+        await this.recordUse(record.id);
+
+        return {
+            id: record.id,
+            name: record.name,
+            scopes: record.scopes,
+            owner: record.owner ?? null,
+        };
+    }
+
+    hasScope(
+        apiKey: Pick<ApiKeyRecord, "scopes">,
+        scope: ApiKeyScope
+    ): boolean {
+        return apiKey.scopes.includes("admin") || apiKey.scopes.includes(scope);
+    }
+
+    /**
+     * Create a key. The key itself is only returned here; we keep its hash.
+     */
+    async createKey(
+        name: string,
+        scopes: ApiKeyScope[],
+        expiresAt: string | null = null,
+        owner: string | null = null
+    ): Promise<{ record: ApiKeyRecord; key: string } | null> {
+        const prefix = randomBytes(6).toString("hex");
+        const key = `ck_${prefix}_${randomBytes(32).toString("base64url")}`;
+
+        const record = await databaseService.insertApiKey({
+            name,
+            key_prefix: prefix,
+            key_hash: hashKey(key).toString("hex"),
+            scopes,
+            owner,
+            expires_at: expiresAt,
+        });
+
+        return record ? { record, key } : null;
+    }
+
+    /**
+     * Replace a key with a new one with the same name, scopes, owner and
+     * expiry. The old key keeps working for the overlap so clients can
+     * switch over.
+     */
+    async rotateKey(
+        id: string,
+        overlapHours: number
+    ): Promise<{ record: ApiKeyRecord; key: string } | null> {
+        const current = await databaseService.getApiKey(id);
+        if (!current || current.revoked_at || this.isExpired(current)) {
+            return null;
+        }
+
+        const replacement = await this.createKey(
+            current.name,
+            current.scopes,
+            current.expires_at ?? null,
+            current.owner ?? null
+        );
+        if (!replacement) {
+            throw new Error(`Failed to create replacement for API key ${id}`);
+        }
+
+        const overlapEnd = Date.now() + overlapHours * 60 * 60 * 1000;
+        if (
+            !current.expires_at ||
+            Date.parse(current.expires_at) > overlapEnd
+        ) {
+            await databaseService.updateApiKey(id, {
+                expires_at: new Date(overlapEnd).toISOString(),
+            });
+            this.keys.delete(current.key_prefix);
+        }
+
+        logger.info("API key rotated:", {
+            id,
+            replacementId: replacement.record.id,
+            overlapHours,
+        });
+
+        return replacement;
+    }
+
+    async revokeKey(id: string): Promise<boolean> {
+        const current = await databaseService.getApiKey(id);
+        if (!current) {
+            return false;
+        }
+
+        const revoked = await databaseService.updateApiKey(id, {
+            revoked_at: current.revoked_at ?? new Date().toISOString(),
+        });
+        if (revoked) {
+            this.keys.delete(current.key_prefix);
+            logger.info("API key revoked:", { id, name: current.name });
+        }
+
+        return revoked;
+    }
+
+    private async getByPrefix(prefix: string): Promise<ApiKeyRecord | null> {
+        const cached = this.keys.get(prefix);
+        if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+            return cached.record;
+        }
+
+        const record = await databaseService.getApiKeyByPrefix(prefix);
+        if (record) {
+            this.keys.set(prefix, { record, loadedAt: Date.now() });
+        } else {
+            this.keys.delete(prefix);
+        }
+
+        return record;
+    }
+
+    private async recordUse(id: string): Promise<void> {
+        const lastWrite = this.lastUsedWrites.get(id) ?? 0;
+        if (Date.now() - lastWrite < LAST_USED_INTERVAL_MS) {
+            return;
+        }
+
+        this.lastUsedWrites.set(id, Date.now());
+        await databaseService.updateApiKey(id, {
+            last_used_at: new Date().toISOString(),
+        });
+    }
+
+    private isExpired(record: ApiKeyRecord): boolean {
+        return (
+            !!record.expires_at && Date.parse(record.expires_at) <= Date.now()
+        );
+    }
+}
+
+export const apiKeyService = new ApiKeyService();
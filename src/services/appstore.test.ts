@@ -0,0 +1,286 @@
+import assert from "assert/strict";
+import { generateKeyPairSync } from "crypto";
+import { afterEach, before, beforeEach, describe, it, mock } from "node:test";
+import type { JWSTransactionDecodedPayload } from "@apple/app-store-server-library";
+import type {
+    ProductRecord,
+    TransactionRecord,
+    ValidationRequest,
+    ValidationResponse,
+    WebhookNotification,
+} from "@/types";
+
+const USER_ID = "7d3f9a52-0c1e-4b8a-9f6d-2e5c8b1a4d70";
+const TRANSACTION_ID = "2000000123456789";
+
+const CONSUMABLE_PRODUCT: ProductRecord = {
+    product_id: "com.comms.comms.situation_pack_5",
+    type: "consumable",
+    entitlements: [],
+    display_name: "5 Situation Pack",
+    situation_credits: 5,
+    sort_order: 5,
+    active: true,
+};
+
+const TRANSACTION = {
+    transactionId: TRANSACTION_ID,
+    originalTransactionId: TRANSACTION_ID,
+    productId: CONSUMABLE_PRODUCT.product_id,
+    type: "Consumable",
+    appAccountToken: USER_ID,
+    inAppOwnershipType: "PURCHASED",
+    environment: "Sandbox",
+    purchaseDate: Date.now(),
+    price: 4990,
+    currency: "USD",
+} as JWSTransactionDecodedPayload;
+
+const VALIDATION_REQUEST: ValidationRequest = {
+    purchaseToken: "signed-transaction",
+    userId: USER_ID,
+    transactionId: TRANSACTION_ID,
+    productId: CONSUMABLE_PRODUCT.product_id,
+};
+
+const notification = (notificationType: string): WebhookNotification => ({
+    notificationType,
+});
+
+// The one-time purchase paths under test are private
+interface OneTimePurchasePaths {
+    validateOneTimePurchase(
+        request: ValidationRequest,
+        transaction: JWSTransactionDecodedPayload
+    ): Promise<ValidationResponse>;
+    processOneTimePurchaseNotification(
+        notification: WebhookNotification,
+        transaction: JWSTransactionDecodedPayload
+    ): Promise<"processed" | "ignored">;
+}
+
+describe("appStoreService one-time purchases", () => {
+    let service: OneTimePurchasePaths;
+    let databaseService: typeof import("./database").databaseService;
+    let catalogService: typeof import("./catalog").catalogService;
+    let discordService: typeof import("./discord").discordService;
+
+    // In-memory ledger and profile behind the stubbed database service
+    let transactions: Map<string, Partial<TransactionRecord>>;
+    let situationCredits: number;
+
+    before(() => {
+        const { privateKey } = generateKeyPairSync("ec", {
+            namedCurve: "prime256v1",
+            privateKeyEncoding: { type: "pkcs8", format: "pem" },
+            publicKeyEncoding: { type: "spki", format: "pem" },
+        });
+
+        // Config is read when the services are first imported
+        Object.assign(process.env, {
+            SUPABASE_URL: "http://127.0.0.1:9",
+            SUPABASE_SERVICE_ROLE_KEY: "test",
+            APPLE_ISSUER_ID: "test",
+            APPLE_KEY_ID: "test",
+            APPLE_BUNDLE_ID: "com.comms.comms",
+            APPLE_APP_APPLE_ID: "1",
+            APPLE_PRIVATE_KEY: privateKey,
+            JWT_SECRET: "test",
+            LOG_LEVEL: "error",
+        });
+
+        // Loaded with require so the tests and the service share the same
+        // module instances, and the mocks below reach the service
+        service = require("./appstore")
+            .appStoreService as unknown as OneTimePurchasePaths;
+        ({ databaseService } = require("./database"));
+        ({ catalogService } = require("./catalog"));
+        ({ discordService } = require("./discord"));
+    });
+
+    beforeEach(() => {
+        transactions = new Map();
+        situationCredits = 0;
+
+        mock.method(catalogService, "getProduct", async (productId: string) =>
+            productId === CONSUMABLE_PRODUCT.product_id
+                ? CONSUMABLE_PRODUCT
+                : null
+        );
+        mock.method(
+            databaseService,
+            "getTransactionRecord",
+            async (transactionId: string) =>
+                transactions.get(transactionId) ?? null
+        );
+        mock.method(
+            databaseService,
+            "insertTransactionRecord",
+            async (transaction: TransactionRecord) => {
+                // Upserts leave columns they don't set alone
+                const row = {
+                    granted: false,
+                    ...transactions.get(transaction.transaction_id),
+                    ...transaction,
+                };
+                transactions.set(transaction.transaction_id, row);
+                return row;
+            }
+        );
+        // Check and set in one step, like the conditional update
+        mock.method(
+            databaseService,
+            "setTransactionGranted",
+            async (transactionId: string, granted: boolean) => {
+                const row = transactions.get(transactionId);
+                if (!row || row.granted === granted) {
+                    return false;
+                }
+                row.granted = granted;
+                return true;
+            }
+        );
+        mock.method(
+            databaseService,
+            "updateTransactionRefundStatus",
+            async () => true
+        );
+        mock.method(
+            databaseService,
+            "adjustSituationCredits",
+            async (_userId: string, delta: number) => {
+                situationCredits += delta;
+                return true;
+            }
+        );
+        mock.method(discordService, "sendAppStoreNotification", async () => {});
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    describe("granting", () => {
+        it("grants once when validation comes before ONE_TIME_CHARGE", async () => {
+            const response = await service.validateOneTimePurchase(
+                VALIDATION_REQUEST,
+                TRANSACTION
+            );
+            await service.processOneTimePurchaseNotification(
+                notification("ONE_TIME_CHARGE"),
+                TRANSACTION
+            );
+
+            assert.equal(response.entitlementGranted, true);
+            assert.equal(situationCredits, 5);
+        });
+
+        it("grants once when ONE_TIME_CHARGE comes before validation", async () => {
+            await service.processOneTimePurchaseNotification(
+                notification("ONE_TIME_CHARGE"),
+                TRANSACTION
+            );
+            const response = await service.validateOneTimePurchase(
+                VALIDATION_REQUEST,
+                TRANSACTION
+            );
+
+            assert.equal(response.entitlementGranted, true);
+            assert.equal(situationCredits, 5);
+        });
+
+        it("grants once when validation and ONE_TIME_CHARGE race", async () => {
+            const [response] = await Promise.all([
+                service.validateOneTimePurchase(
+                    VALIDATION_REQUEST,
+                    TRANSACTION
+                ),
+                service.processOneTimePurchaseNotification(
+                    notification("ONE_TIME_CHARGE"),
+                    TRANSACTION
+                ),
+            ]);
+
+            assert.equal(response.entitlementGranted, true);
+            assert.equal(situationCredits, 5);
+        });
+
+        it("lets a retry grant after the credits failed to apply", async () => {
+            mock.method(
+                databaseService,
+                "adjustSituationCredits",
+                async () => false
+            );
+            const failed = await service.validateOneTimePurchase(
+                VALIDATION_REQUEST,
+                TRANSACTION
+            );
+            assert.equal(failed.entitlementGranted, false);
+            assert.equal(transactions.get(TRANSACTION_ID)?.granted, false);
+
+            mock.method(
+                databaseService,
+                "adjustSituationCredits",
+                async (_userId: string, delta: number) => {
+                    situationCredits += delta;
+                    return true;
+                }
+            );
+            const retried = await service.validateOneTimePurchase(
+                VALIDATION_REQUEST,
+                TRANSACTION
+            );
+
+            assert.equal(retried.entitlementGranted, true);
+            assert.equal(situationCredits, 5);
+        });
+    });
+
+    describe("refunds", () => {
+        beforeEach(async () => {
+            await service.validateOneTimePurchase(
+                VALIDATION_REQUEST,
+                TRANSACTION
+            );
+        });
+
+        it("takes the credits back once for a replayed REFUND", async () => {
+            await service.processOneTimePurchaseNotification(
+                notification("REFUND"),
+                TRANSACTION
+            );
+            await service.processOneTimePurchaseNotification(
+                notification("REFUND"),
+                TRANSACTION
+            );
+
+            assert.equal(situationCredits, 0);
+        });
+
+        it("gives the credits back once for a replayed REFUND_REVERSED", async () => {
+            await service.processOneTimePurchaseNotification(
+                notification("REFUND"),
+                TRANSACTION
+            );
+            await service.processOneTimePurchaseNotification(
+                notification("REFUND_REVERSED"),
+                TRANSACTION
+            );
+            await service.processOneTimePurchaseNotification(
+                notification("REFUND_REVERSED"),
+                TRANSACTION
+            );
+
+            assert.equal(situationCredits, 5);
+        });
+
+        it("ignores REFUND_REVERSED for a purchase that wasn't refunded", async () => {
+            await service.processOneTimePurchaseNotification(
+                notification("REFUND_REVERSED"),
+                TRANSACTION
+            );
+
+            assert.equal(situationCredits, 5);
+        });
+    });
+});
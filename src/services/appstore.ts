@@ -1,61 +1,207 @@
 import {
     AppStoreServerAPIClient,
     Environment,
+    ExtendReasonCode,
     SignedDataVerifier,
     ReceiptUtility,
     JWSTransactionDecodedPayload,
     JWSRenewalInfoDecodedPayload,
+    HistoryResponse,
+    InAppOwnershipType,
+    LastTransactionsItem,
     Order,
+    PromotionalOfferSignatureCreator,
+    RefundHistoryResponse,
     TransactionHistoryRequest,
-    ProductType,
+    Type,
 } from "@apple/app-store-server-library";
 import { config } from "@/utils/config";
 import logger from "@/utils/logger";
 import {
+    AppleEnvironment,
+    AppleSubscriptionStatus,
     ValidationRequest,
     ValidationResponse,
     WebhookNotification,
-    SUBSCRIPTION_PRODUCTS,
+    SubscriptionRecord,
+    SubscriptionStatus,
+    OwnershipType,
+    Platform,
+    ProductRecord,
+    PromotionalOfferSignature,
+    RenewalExtensionRequestRecord,
 } from "@/types";
+import {
+    fromAppleStatus,
+    getEffectiveStatus,
+    isStaleNotification,
+    isTransitionAllowed,
+    resolveStatusForNotification,
+    statusGrantsAccess,
+    statusPriority,
+} from "@/utils/subscription-state";
+import { catalogService, productTypeFromAppleType } from "./catalog";
+import { consumptionService } from "./consumption";
+import { entitlementService } from "./entitlements";
 import { databaseService } from "./database";
 import { discordService } from "./discord";
 import fs from "fs";
+import { randomUUID } from "crypto";
 
 class AppStoreService {
-    private client: AppStoreServerAPIClient;
-    private verifier: SignedDataVerifier;
-    private environment: Environment;
+    // One client and verifier per environment: production also receives
+    // TestFlight and sandbox purchases
+    private clients: Record<AppleEnvironment, AppStoreServerAPIClient>;
+    private verifiers: Record<AppleEnvironment, SignedDataVerifier>;
+    private offerSignatureCreator: PromotionalOfferSignatureCreator;
 
     constructor() {
-        this.environment =
-            config.apple.environment === "Production"
-                ? Environment.PRODUCTION
-                : Environment.SANDBOX;
+        // Initialize the App Store Server API clients
+        this.clients = {
+            Production: this.createClient(Environment.PRODUCTION),
+            Sandbox: this.createClient(Environment.SANDBOX),
+        };
+
+        // Initialize the verifiers for webhook signatures and transaction validation
+        let appleCertificates: Buffer[] = [];
+        appleCertificates.push(
+            fs.readFileSync("./certificates/AppleRootCA-G3.cer")
+        );
+        this.verifiers = {
+            Production: this.createVerifier(
+                appleCertificates,
+                Environment.PRODUCTION
+            ),
+            Sandbox: this.createVerifier(
+                appleCertificates,
+                Environment.SANDBOX
+            ),
+        };
+
+        // Signs promotional offers with the same subscription key
+        this.offerSignatureCreator = new PromotionalOfferSignatureCreator(
+            config.apple.privateKey,
+            config.apple.keyId,
+            config.apple.bundleId
+        );
+    }
 
-        // Initialize the App Store Server API client
-        this.client = new AppStoreServerAPIClient(
+    private createClient(environment: Environment): AppStoreServerAPIClient {
+        return new AppStoreServerAPIClient(
             config.apple.privateKey,
             config.apple.keyId,
             config.apple.issuerId,
             config.apple.bundleId,
-            this.environment
+            environment
         );
+    }
 
-        // Initialize the verifier for webhook signatures and transaction validation
-        // Pass empty array for root certs - will use Apple's built-in certificates
-        let appleCertificates: Buffer[] = [];
-        appleCertificates.push(
-            fs.readFileSync("./certificates/AppleRootCA-G3.cer")
-        );
-        this.verifier = new SignedDataVerifier(
-            appleCertificates, // Apple root certificates (empty array uses built-in certs)
+    private createVerifier(
+        appleCertificates: Buffer[],
+        environment: Environment
+    ): SignedDataVerifier {
+        return new SignedDataVerifier(
+            appleCertificates, // Apple root certificates
             true, // Enable online checks
-            this.environment,
+            environment,
             config.apple.bundleId,
             config.apple.appAppleId
         );
     }
 
+    /**
+     * Rows written before Google Play support have no platform and are
+     * App Store purchases
+     */
+    private isAppStore(record: { platform?: Platform | null }): boolean {
+        return !record.platform || record.platform === "app_store";
+    }
+
+    /**
+     * Map Apple's environment string to the one we store. Xcode and local
+     * StoreKit testing count as sandbox; a missing value falls back to the
+     * configured environment.
+     */
+    private toAppleEnvironment(
+        environment: Environment | string | undefined
+    ): AppleEnvironment {
+        if (!environment) {
+            return config.apple.environment;
+        }
+        return environment === Environment.PRODUCTION
+            ? "Production"
+            : "Sandbox";
+    }
+
+    /**
+     * Environment a signed payload claims, read before verification to pick
+     * the verifier. Verification fails if the claim is wrong.
+     */
+    private peekEnvironment(signedPayload: string): AppleEnvironment {
+        try {
+            const payload = JSON.parse(
+                Buffer.from(
+                    signedPayload.split(".")[1] || "",
+                    "base64url"
+                ).toString("utf8")
+            );
+            return this.toAppleEnvironment(
+                payload.data?.environment ??
+                    payload.summary?.environment ??
+                    payload.externalPurchaseToken?.environment ??
+                    payload.environment
+            );
+        } catch {
+            return config.apple.environment;
+        }
+    }
+
+    private getNotificationEnvironment(
+        notification: WebhookNotification
+    ): AppleEnvironment {
+        return this.toAppleEnvironment(
+            notification.data?.environment ?? notification.summary?.environment
+        );
+    }
+
+    /**
+     * Build the signed payload StoreKit needs to present a promotional offer.
+     * The nonce is single-use and the signature is valid for 24 hours.
+     */
+    createPromotionalOfferSignature(
+        productId: string,
+        offerId: string,
+        appAccountToken: string
+    ): PromotionalOfferSignature {
+        // Apple requires a lowercase UUID nonce
+        const nonce = randomUUID().toLowerCase();
+        const timestamp = Date.now();
+
+        const signature = this.offerSignatureCreator.createSignature(
+            productId,
+            offerId,
+            appAccountToken,
+            nonce,
+            timestamp
+        );
+
+        logger.info("Created promotional offer signature", {
+            productId,
+            offerId,
+            appAccountToken,
+        });
+
+        return {
+            productId,
+            offerId,
+            appAccountToken,
+            keyIdentifier: config.apple.keyId,
+            nonce,
+            timestamp,
+            signature,
+        };
+    }
+
     async validateReceipt(
         request: ValidationRequest
     ): Promise<ValidationResponse> {
@@ -71,17 +217,20 @@ class AppStoreService {
                 try {
                     console.log("request.purchaseToken", request.purchaseToken);
                     // Validate the receipt data (JWS signature from iOS)
-                    const decodedTransaction =
-                        await this.verifier.verifyAndDecodeTransaction(
-                            request.purchaseToken
-                        );
+                    // The signed transaction's environment wins over
+                    // request.environment
+                    const decodedTransaction = await this.verifiers[
+                        this.peekEnvironment(request.purchaseToken)
+                    ].verifyAndDecodeTransaction(request.purchaseToken);
                     console.log("decodedTransaction", decodedTransaction);
 
                     if (decodedTransaction) {
                         // Verify that the transaction belongs to the requesting user
                         if (
-                            decodedTransaction.appAccountToken !==
-                            request.userId
+                            !(await this.isOwnedBy(
+                                decodedTransaction,
+                                request.userId
+                            ))
                         ) {
                             logger.warn("Transaction ownership mismatch", {
                                 requestUserId: request.userId,
@@ -89,6 +238,8 @@ class AppStoreService {
                                     decodedTransaction.appAccountToken,
                                 transactionId:
                                     decodedTransaction.originalTransactionId,
+                                ownershipType:
+                                    decodedTransaction.inAppOwnershipType,
                             });
                             return {
                                 success: false,
@@ -98,8 +249,25 @@ class AppStoreService {
                         }
 
                         logger.info("Successfully validated receipt directly");
+
+                        if (this.isOneTimePurchase(decodedTransaction)) {
+                            return await this.validateOneTimePurchase(
+                                request,
+                                decodedTransaction
+                            );
+                        }
+
+                        const environment = this.toAppleEnvironment(
+                            decodedTransaction.environment
+                        );
+                        await this.recordTransaction(
+                            request.userId,
+                            decodedTransaction,
+                            environment
+                        );
+
                         const isActive =
-                            this.isSubscriptionActive(decodedTransaction);
+                            await this.isSubscriptionActive(decodedTransaction);
 
                         // Store the subscription record in database
                         if (
@@ -111,22 +279,34 @@ class AppStoreService {
                                 product_id: request.productId,
                                 transaction_id:
                                     decodedTransaction.originalTransactionId,
-                                environment:
-                                    request.environment ||
-                                    config.apple.environment,
+                                environment,
                                 purchased_at: new Date(
                                     decodedTransaction.purchaseDate ||
                                         Date.now()
                                 ).toISOString(),
+                                expires_at: decodedTransaction.expiresDate
+                                    ? new Date(
+                                          decodedTransaction.expiresDate
+                                      ).toISOString()
+                                    : null,
                                 expired: false,
+                                ownership_type:
+                                    this.getOwnershipType(decodedTransaction),
                             };
 
-                            await databaseService.insertSubscriptionRecord(
-                                subscriptionRecord
-                            );
-                            await databaseService.updateUserSubscriptionStatus(
-                                request.userId,
-                                true
+                            const storedSubscription =
+                                await databaseService.insertSubscriptionRecord(
+                                    subscriptionRecord
+                                );
+                            if (storedSubscription) {
+                                await this.transitionStatus(
+                                    storedSubscription,
+                                    "active",
+                                    "VALIDATE_RECEIPT"
+                                );
+                            }
+                            await databaseService.refreshUserSubscriptionStatus(
+                                request.userId
                             );
                             await databaseService.setHasPurchasedSubscriptionBefore(
                                 request.userId
@@ -136,6 +316,8 @@ class AppStoreService {
                         return {
                             success: true,
                             subscriptionActive: isActive,
+                            ownershipType:
+                                this.getOwnershipType(decodedTransaction),
                             transactionId:
                                 decodedTransaction.originalTransactionId ||
                                 undefined,
@@ -168,129 +350,454 @@ class AppStoreService {
         }
     }
 
+    /**
+     * Record a consumable or non-consumable purchase and grant what it unlocks.
+     * Validating the same purchase twice, or alongside its ONE_TIME_CHARGE
+     * notification, grants it once.
+     */
+    private async validateOneTimePurchase(
+        request: ValidationRequest,
+        transaction: JWSTransactionDecodedPayload
+    ): Promise<ValidationResponse> {
+        await this.recordTransaction(
+            request.userId,
+            transaction,
+            this.toAppleEnvironment(transaction.environment)
+        );
+
+        let entitlementGranted = false;
+        if (transaction.revocationDate) {
+            logger.warn("One-time purchase was revoked, not granting", {
+                userId: request.userId,
+                transactionId: transaction.transactionId,
+            });
+        } else {
+            entitlementGranted = await this.grantOneTimePurchase(
+                request.userId,
+                transaction
+            );
+        }
+
+        return {
+            success: true,
+            subscriptionActive: false,
+            productType: transaction.type,
+            entitlementGranted,
+            ownershipType: this.getOwnershipType(transaction),
+            transactionId: transaction.transactionId,
+        };
+    }
+
+    /**
+     * Purchasers must match the transaction's appAccountToken. Family members
+     * get their own transaction ids but never a token of their own, so a
+     * family-shared transaction belongs to the first user who validates it.
+     */
+    private async isOwnedBy(
+        transaction: JWSTransactionDecodedPayload,
+        userId: string
+    ): Promise<boolean> {
+        if (this.getOwnershipType(transaction) !== "FAMILY_SHARED") {
+            return transaction.appAccountToken === userId;
+        }
+
+        const claimedBy = this.isOneTimePurchase(transaction)
+            ? (
+                  await databaseService.getTransactionRecord(
+                      transaction.transactionId || ""
+                  )
+              )?.user_id
+            : (
+                  await databaseService.getSubscriptionByTransactionId(
+                      transaction.originalTransactionId || ""
+                  )
+              )?.user_id;
+
+        return !claimedBy || claimedBy === userId;
+    }
+
+    private getOwnershipType(
+        transaction: JWSTransactionDecodedPayload
+    ): OwnershipType {
+        return transaction.inAppOwnershipType ===
+            InAppOwnershipType.FAMILY_SHARED
+            ? "FAMILY_SHARED"
+            : "PURCHASED";
+    }
+
     async handleWebhookNotification(signedPayload: string): Promise<boolean> {
         try {
             // Verify and decode the webhook notification
             const decodedNotification =
-                await this.verifier.verifyAndDecodeNotification(signedPayload);
+                await this.verifiers[
+                    this.peekEnvironment(signedPayload)
+                ].verifyAndDecodeNotification(signedPayload);
 
             if (!decodedNotification) {
                 logger.error("Failed to decode webhook notification");
                 return false;
             }
 
-            logger.info("Processing webhook notification:", {
-                type: decodedNotification.notificationType,
-                subtype: decodedNotification.subtype,
+            const notification = decodedNotification as WebhookNotification;
+
+            // Apple retries deliveries, so skip anything already applied or
+            // deliberately ignored. Only failed ones are worth another try.
+            if (notification.notificationUUID) {
+                const existingEvent =
+                    await databaseService.getNotificationEvent(
+                        notification.notificationUUID
+                    );
+                if (
+                    existingEvent?.status === "processed" ||
+                    existingEvent?.status === "ignored"
+                ) {
+                    logger.info("Duplicate webhook notification ignored:", {
+                        notificationUUID: notification.notificationUUID,
+                        type: notification.notificationType,
+                    });
+                    return true;
+                }
+            }
+
+            return await this.runNotification(notification, signedPayload);
+        } catch (error) {
+            logger.error("Webhook processing failed:", error);
+            return false;
+        }
+    }
+
+    /**
+     * Re-run a stored notification, regardless of its previous outcome
+     */
+    async replayNotification(notificationUUID: string): Promise<boolean> {
+        const event = await databaseService.getNotificationEvent(
+            notificationUUID
+        );
+        if (!event) {
+            logger.warn("Notification event not found for replay:", {
+                notificationUUID,
+            });
+            return false;
+        }
+
+        try {
+            const decodedNotification = await this.verifiers[
+                this.peekEnvironment(event.signed_payload)
+            ].verifyAndDecodeNotification(event.signed_payload);
+
+            logger.info("Replaying webhook notification:", {
+                notificationUUID,
+                type: event.notification_type,
+                previousStatus: event.status,
             });
 
-            return await this.processNotification(
-                decodedNotification as WebhookNotification
+            return await this.runNotification(
+                decodedNotification as WebhookNotification,
+                event.signed_payload
             );
         } catch (error) {
-            logger.error("Webhook processing failed:", error);
+            logger.error("Webhook replay failed:", error);
+            return false;
+        }
+    }
+
+    /**
+     * Record the notification in the event log, process it and store the outcome
+     */
+    private async runNotification(
+        notification: WebhookNotification,
+        signedPayload: string
+    ): Promise<boolean> {
+        const notificationUUID = notification.notificationUUID;
+
+        logger.info("Processing webhook notification:", {
+            notificationUUID,
+            type: notification.notificationType,
+            subtype: notification.subtype,
+        });
+
+        if (notificationUUID) {
+            const existingEvent = await databaseService.getNotificationEvent(
+                notificationUUID
+            );
+            await databaseService.upsertNotificationEvent({
+                notification_uuid: notificationUUID,
+                notification_type: notification.notificationType,
+                subtype: notification.subtype ?? null,
+                signed_date: notification.signedDate
+                    ? new Date(notification.signedDate).toISOString()
+                    : null,
+                signed_payload: signedPayload,
+                payload: notification,
+                status: "received",
+                error: null,
+                attempts: (existingEvent?.attempts ?? 0) + 1,
+            });
+        }
+
+        try {
+            const outcome = await this.processNotification(notification);
+
+            if (notificationUUID) {
+                await databaseService.updateNotificationEventStatus(
+                    notificationUUID,
+                    outcome
+                );
+            }
+            return true;
+        } catch (error) {
+            logger.error("Error processing notification:", error);
+
+            if (notificationUUID) {
+                await databaseService.updateNotificationEventStatus(
+                    notificationUUID,
+                    "failed",
+                    error instanceof Error ? error.message : String(error)
+                );
+            }
             return false;
         }
     }
 
+    /**
+     * Apply a decoded notification. Returns "ignored" for stale or
+     * inapplicable events; throws when it can't be processed so the caller
+     * can record the failure and Apple retries the delivery.
+     */
     private async processNotification(
         notification: WebhookNotification
-    ): Promise<boolean> {
+    ): Promise<"processed" | "ignored"> {
         const { notificationType, subtype, data } = notification;
 
+        // These notifications don't carry a transaction
+        switch (notificationType) {
+            case "TEST":
+                await this.handleTestNotification(notification);
+                return "processed";
+            case "EXTERNAL_PURCHASE_TOKEN":
+                await this.handleExternalPurchaseToken(notification);
+                return "processed";
+            case "RENEWAL_EXTENSION":
+                if (subtype === "SUMMARY") {
+                    await this.handleRenewalExtensionSummary(notification);
+                    return "processed";
+                }
+                break;
+        }
+
         if (!data?.signedTransactionInfo) {
-            logger.warn("Notification missing transaction info");
-            return false;
+            throw new Error("Notification missing transaction info");
         }
 
-        try {
-            logger.info(notification);
-            // Decode the transaction info
-            const decodedTransaction =
-                await this.verifier.verifyAndDecodeTransaction(
-                    data.signedTransactionInfo
-                );
+        logger.info(notification);
+        // Decode the transaction info
+        const environment = this.getNotificationEnvironment(notification);
+        const decodedTransaction = await this.verifiers[
+            environment
+        ].verifyAndDecodeTransaction(data.signedTransactionInfo);
 
-            if (!decodedTransaction) {
-                logger.error("Failed to decode transaction from notification");
-                return false;
+        if (!decodedTransaction) {
+            throw new Error("Failed to decode transaction from notification");
+        }
+
+        logger.info(decodedTransaction);
+
+        // Consumables and non-consumables have no subscription row
+        if (this.isOneTimePurchase(decodedTransaction)) {
+            return this.processOneTimePurchaseNotification(
+                notification,
+                decodedTransaction
+            );
+        }
+
+        // Find the user associated with this transaction, falling back to
+        // the appAccountToken for purchases the app never validated
+        const existingSubscription =
+            (await databaseService.getSubscriptionByTransactionId(
+                decodedTransaction.originalTransactionId || ""
+            )) ||
+            (await this.createSubscriptionFromAppAccountToken(
+                decodedTransaction
+            ));
+
+        if (!existingSubscription) {
+            throw new Error(
+                `No existing subscription found for transaction: ${decodedTransaction.originalTransactionId}`
+            );
+        }
+
+        const userId = existingSubscription.user_id;
+
+        // Every notification carrying a transaction lands in the ledger,
+        // so renewals and refunds keep their own billing history
+        await this.recordTransaction(userId, decodedTransaction, environment);
+
+        const nextStatus = resolveStatusForNotification(
+            notificationType,
+            subtype,
+            decodedTransaction.expiresDate
+        );
+
+        if (
+            isStaleNotification(
+                existingSubscription,
+                notification.signedDate,
+                decodedTransaction.purchaseDate,
+                nextStatus
+            )
+        ) {
+            logger.warn("Ignoring out-of-order notification:", {
+                userId,
+                transactionId: existingSubscription.transaction_id,
+                notificationType,
+                subtype,
+                signedDate: notification.signedDate,
+                lastEventSignedAt: existingSubscription.last_event_signed_at,
+            });
+            return "ignored";
+        }
+
+        await this.recordEventOrder(
+            existingSubscription,
+            notification.signedDate,
+            decodedTransaction.purchaseDate,
+            decodedTransaction.expiresDate
+        );
+
+        const renewalInfo = data.signedRenewalInfo
+            ? await this.recordRenewalInfo(
+                  existingSubscription.transaction_id,
+                  data.signedRenewalInfo,
+                  environment
+              )
+            : null;
+
+        // Move the subscription through the state machine first; an
+        // illegal transition means the event doesn't apply to this state
+        if (nextStatus) {
+            const result = await this.transitionStatus(
+                existingSubscription,
+                nextStatus,
+                notificationType,
+                subtype
+            );
+            if (result === "rejected") {
+                return "ignored";
+            }
+            if (result === "failed") {
+                throw new Error(
+                    `Failed to store status ${nextStatus} for transaction: ${existingSubscription.transaction_id}`
+                );
             }
+        }
 
-            logger.info(decodedTransaction);
+        // Handle different notification types
+        switch (notificationType) {
+            case "SUBSCRIBED":
+                await this.handleSubscriptionActivated(
+                    userId,
+                    decodedTransaction
+                );
+                break;
 
-            // Find the user associated with this transaction
-            const existingSubscription =
-                await databaseService.getSubscriptionByTransactionId(
-                    decodedTransaction.originalTransactionId || ""
+            case "DID_RENEW":
+                await this.handleSubscriptionRenewed(
+                    userId,
+                    decodedTransaction
+                );
+                break;
+
+            case "EXPIRED":
+            case "GRACE_PERIOD_EXPIRED":
+                await this.handleSubscriptionExpired(
+                    userId,
+                    decodedTransaction,
+                    notification
                 );
+                break;
 
-            if (!existingSubscription) {
-                logger.warn(
-                    "No existing subscription found for transaction:",
-                    decodedTransaction.originalTransactionId
+            case "DID_FAIL_TO_RENEW":
+                await this.handleRenewalFailure(
+                    userId,
+                    decodedTransaction,
+                    notification
                 );
-                return false;
-            }
+                break;
+
+            case "DID_CHANGE_RENEWAL_STATUS":
+                await this.handleRenewalStatusChange(
+                    userId,
+                    decodedTransaction,
+                    notification,
+                    renewalInfo
+                );
+                break;
+
+            case "DID_CHANGE_RENEWAL_PREF":
+                await this.handleRenewalPreferenceChange(
+                    userId,
+                    decodedTransaction,
+                    notification,
+                    renewalInfo
+                );
+                break;
 
-            const userId = existingSubscription.user_id;
+            case "REFUND":
+                await this.handleRefund(userId, decodedTransaction);
+                break;
 
-            // Handle different notification types
-            switch (notificationType) {
-                case "SUBSCRIBED":
-                    await this.handleSubscriptionActivated(
-                        userId,
-                        decodedTransaction
-                    );
-                    break;
+            case "REFUND_DECLINED":
+                await this.handleRefundDeclined(userId, decodedTransaction);
+                break;
 
-                case "DID_RENEW":
-                    await this.handleSubscriptionRenewed(
-                        userId,
-                        decodedTransaction
-                    );
-                    break;
+            case "REFUND_REVERSED":
+                await this.handleRefundReversed(userId, decodedTransaction);
+                break;
 
-                case "EXPIRED":
-                case "DID_FAIL_TO_RENEW":
-                case "GRACE_PERIOD_EXPIRED":
-                    await this.handleSubscriptionExpired(
-                        userId,
-                        decodedTransaction
-                    );
-                    break;
+            case "CONSUMPTION_REQUEST":
+                await this.handleConsumptionRequest(
+                    userId,
+                    decodedTransaction,
+                    notification
+                );
+                break;
 
-                case "DID_CHANGE_RENEWAL_STATUS":
-                    await this.handleRenewalStatusChange(
-                        userId,
-                        decodedTransaction,
-                        notification
-                    );
-                    break;
+            case "OFFER_REDEEMED":
+                await this.handleOfferRedeemed(
+                    userId,
+                    decodedTransaction,
+                    notification
+                );
+                break;
 
-                case "DID_CHANGE_RENEWAL_PREF":
-                    await this.handleRenewalPreferenceChange(
-                        userId,
-                        decodedTransaction,
-                        notification
-                    );
-                    break;
+            case "PRICE_INCREASE":
+                await this.handlePriceIncrease(
+                    userId,
+                    decodedTransaction,
+                    notification
+                );
+                break;
 
-                case "REFUND":
-                    await this.handleRefund(userId, decodedTransaction);
-                    break;
+            case "REVOKE":
+                await this.handleRevoke(userId, decodedTransaction);
+                break;
 
-                default:
-                    logger.info(
-                        "Unhandled notification type:",
-                        notificationType
-                    );
-            }
+            case "RENEWAL_EXTENDED":
+                await this.handleRenewalExtended(userId, decodedTransaction);
+                break;
 
-            return true;
-        } catch (error) {
-            logger.error("Error processing notification:", error);
-            return false;
+            case "RENEWAL_EXTENSION":
+                await this.handleRenewalExtensionFailure(
+                    userId,
+                    decodedTransaction
+                );
+                break;
+
+            default:
+                logger.info("Unhandled notification type:", notificationType);
         }
+
+        return "processed";
     }
 
     private async handleSubscriptionActivated(
@@ -302,7 +809,7 @@ class AppStoreService {
             transactionId: transaction.originalTransactionId,
         });
 
-        await databaseService.updateUserSubscriptionStatus(userId, true);
+        await databaseService.refreshUserSubscriptionStatus(userId);
         await databaseService.setHasPurchasedSubscriptionBefore(userId);
 
         // Send Discord notification
@@ -311,7 +818,7 @@ class AppStoreService {
             userId,
             productId: transaction.productId,
             transactionId: transaction.originalTransactionId,
-            environment: config.apple.environment,
+            environment: this.toAppleEnvironment(transaction.environment),
             price: transaction.price,
             currency: transaction.currency,
         });
@@ -326,21 +833,21 @@ class AppStoreService {
             transactionId: transaction.originalTransactionId,
         });
 
-        // Insert new transaction record for the renewal
+        // Keep the subscription row (keyed by original transaction) current;
+        // the individual renewal is already in the transactions ledger
         if (transaction.originalTransactionId && transaction.productId) {
             await databaseService.insertSubscriptionRecord({
                 user_id: userId,
                 product_id: transaction.productId,
                 transaction_id: transaction.originalTransactionId,
-                environment: config.apple.environment,
+                environment: this.toAppleEnvironment(transaction.environment),
                 purchased_at: new Date(
                     transaction.purchaseDate || Date.now()
                 ).toISOString(),
-                expired: false,
             });
         }
 
-        await databaseService.updateUserSubscriptionStatus(userId, true);
+        await databaseService.refreshUserSubscriptionStatus(userId);
 
         // Send Discord notification
         await discordService.sendAppStoreNotification({
@@ -348,7 +855,7 @@ class AppStoreService {
             userId,
             productId: transaction.productId,
             transactionId: transaction.originalTransactionId,
-            environment: config.apple.environment,
+            environment: this.toAppleEnvironment(transaction.environment),
             price: transaction.price,
             currency: transaction.currency,
         });
@@ -356,30 +863,51 @@ class AppStoreService {
 
     private async handleSubscriptionExpired(
         userId: string,
-        transaction: JWSTransactionDecodedPayload
+        transaction: JWSTransactionDecodedPayload,
+        notification: WebhookNotification
     ): Promise<void> {
         logger.info("Subscription expired:", {
             userId,
             transactionId: transaction.originalTransactionId,
+            subtype: notification.subtype,
         });
 
-        await databaseService.updateUserSubscriptionStatus(userId, false);
+        await databaseService.refreshUserSubscriptionStatus(userId);
 
-        // Mark the subscription as expired in the database
-        if (transaction.originalTransactionId) {
-            await databaseService.updateSubscriptionExpiredStatus(
-                transaction.originalTransactionId,
-                true
-            );
-        }
+        // Send Discord notification
+        await discordService.sendAppStoreNotification({
+            type: notification.notificationType,
+            userId,
+            productId: transaction.productId,
+            transactionId: transaction.originalTransactionId,
+            environment: this.toAppleEnvironment(transaction.environment),
+            price: transaction.price,
+            currency: transaction.currency,
+        });
+    }
+
+    private async handleRenewalFailure(
+        userId: string,
+        transaction: JWSTransactionDecodedPayload,
+        notification: WebhookNotification
+    ): Promise<void> {
+        logger.info("Subscription renewal failed:", {
+            userId,
+            transactionId: transaction.originalTransactionId,
+            subtype: notification.subtype,
+        });
+
+        // Apple keeps retrying the charge, so access stays on while the
+        // subscription is in grace period or billing retry
+        await databaseService.refreshUserSubscriptionStatus(userId);
 
         // Send Discord notification
         await discordService.sendAppStoreNotification({
-            type: "EXPIRED",
+            type: "DID_FAIL_TO_RENEW",
             userId,
             productId: transaction.productId,
             transactionId: transaction.originalTransactionId,
-            environment: config.apple.environment,
+            environment: this.toAppleEnvironment(transaction.environment),
             price: transaction.price,
             currency: transaction.currency,
         });
@@ -388,16 +916,20 @@ class AppStoreService {
     private async handleRenewalStatusChange(
         userId: string,
         transaction: JWSTransactionDecodedPayload,
-        notification: WebhookNotification
+        notification: WebhookNotification,
+        renewalInfo: JWSRenewalInfoDecodedPayload | null
     ): Promise<void> {
         logger.info("Renewal status changed:", {
             userId,
             transactionId: transaction.originalTransactionId,
             subtype: notification.subtype,
+            autoRenewStatus: renewalInfo?.autoRenewStatus,
+            expirationIntent: renewalInfo?.expirationIntent,
         });
 
         // Handle auto-renewal status changes
-        // This is informational and doesn't immediately affect subscription status
+        // This is informational and doesn't immediately affect subscription status;
+        // the new auto-renew status was stored from the renewal info
 
         // Send Discord notification
         await discordService.sendAppStoreNotification({
@@ -405,25 +937,29 @@ class AppStoreService {
             userId,
             productId: transaction.productId,
             transactionId: transaction.originalTransactionId,
-            environment: config.apple.environment,
+            environment: this.toAppleEnvironment(transaction.environment),
             price: transaction.price,
             currency: transaction.currency,
+            subtype: notification.subtype,
         });
     }
 
     private async handleRenewalPreferenceChange(
         userId: string,
         transaction: JWSTransactionDecodedPayload,
-        notification: WebhookNotification
+        notification: WebhookNotification,
+        renewalInfo: JWSRenewalInfoDecodedPayload | null
     ): Promise<void> {
         logger.info("Renewal preference changed:", {
             userId,
             transactionId: transaction.originalTransactionId,
             subtype: notification.subtype,
+            autoRenewProductId: renewalInfo?.autoRenewProductId,
         });
 
         // Handle subscription preference changes (e.g., upgrade/downgrade)
-        // This is typically informational and doesn't immediately affect current subscription status
+        // The current subscription is unaffected; the pending product was
+        // stored as auto_renew_product_id from the renewal info
 
         // Send Discord notification
         await discordService.sendAppStoreNotification({
@@ -431,9 +967,13 @@ class AppStoreService {
             userId,
             productId: transaction.productId,
             transactionId: transaction.originalTransactionId,
-            environment: config.apple.environment,
+            environment: this.toAppleEnvironment(transaction.environment),
             price: transaction.price,
             currency: transaction.currency,
+            subtype: notification.subtype,
+            details: renewalInfo?.autoRenewProductId
+                ? `Renews as ${renewalInfo.autoRenewProductId}`
+                : undefined,
         });
     }
 
@@ -446,15 +986,13 @@ class AppStoreService {
             transactionId: transaction.originalTransactionId,
         });
 
-        await databaseService.updateUserSubscriptionStatus(userId, false);
-
-        // Mark the subscription as expired in the database
-        if (transaction.originalTransactionId) {
-            await databaseService.updateSubscriptionExpiredStatus(
-                transaction.originalTransactionId,
-                true
+        if (transaction.transactionId) {
+            await databaseService.updateTransactionRefundStatus(
+                transaction.transactionId,
+                "refunded"
             );
         }
+        await databaseService.refreshUserSubscriptionStatus(userId);
 
         // Send Discord notification
         await discordService.sendAppStoreNotification({
@@ -462,102 +1000,1246 @@ class AppStoreService {
             userId,
             productId: transaction.productId,
             transactionId: transaction.originalTransactionId,
-            environment: config.apple.environment,
+            environment: this.toAppleEnvironment(transaction.environment),
             price: transaction.price,
             currency: transaction.currency,
         });
     }
 
-    private isSubscriptionActive(
+    private async handleRefundDeclined(
+        userId: string,
         transaction: JWSTransactionDecodedPayload
-    ): boolean {
-        // Check if the transaction is for a subscription product
-        if (
-            !transaction.productId ||
-            !Object.values(SUBSCRIPTION_PRODUCTS).includes(
-                transaction.productId as any
-            )
-        ) {
-            return false;
-        }
+    ): Promise<void> {
+        logger.info("Refund request declined:", {
+            userId,
+            transactionId: transaction.transactionId,
+        });
 
-        // For subscriptions, check if it hasn't expired
-        if (transaction.expiresDate) {
-            const expiresDate = new Date(transaction.expiresDate);
-            const now = new Date();
-            return expiresDate > now;
+        if (transaction.transactionId) {
+            await databaseService.updateTransactionRefundStatus(
+                transaction.transactionId,
+                "declined"
+            );
         }
 
-        // If no expiry date, it might be a non-renewable purchase
-        return true;
+        // Send Discord notification
+        await discordService.sendAppStoreNotification({
+            type: "REFUND_DECLINED",
+            userId,
+            productId: transaction.productId,
+            transactionId: transaction.originalTransactionId,
+            environment: this.toAppleEnvironment(transaction.environment),
+            price: transaction.price,
+            currency: transaction.currency,
+        });
     }
 
-    async getSubscriptionStatus(
-        userId: string
-    ): Promise<{ active: boolean; expiresDate?: string }> {
-        try {
-            const subscriptions = await databaseService.getActiveSubscriptions(
-                userId
-            );
-
-            if (subscriptions.length === 0) {
-                return { active: false };
-            }
-
-            // Check the most recent subscription
-            const latestSubscription = subscriptions[0];
-            if (!latestSubscription) {
-                return { active: false };
-            }
-
-            const transactionHistoryRequest: TransactionHistoryRequest = {
-                sort: Order.ASCENDING,
-                revoked: false,
-                productTypes: [ProductType.AUTO_RENEWABLE],
-            };
+    private async handleRefundReversed(
+        userId: string,
+        transaction: JWSTransactionDecodedPayload
+    ): Promise<void> {
+        logger.info("Refund reversed:", {
+            userId,
+            transactionId: transaction.transactionId,
+        });
 
-            // Get current subscription status from Apple
-            const transactionHistory = await this.client.getTransactionHistory(
-                latestSubscription.transaction_id,
-                null, // revision
-                // startDate
-                transactionHistoryRequest
+        if (transaction.transactionId) {
+            await databaseService.updateTransactionRefundStatus(
+                transaction.transactionId,
+                "reversed"
             );
+        }
+        await databaseService.refreshUserSubscriptionStatus(userId);
 
-            if (
-                transactionHistory.signedTransactions &&
-                transactionHistory.signedTransactions.length > 0
-            ) {
-                const firstTransaction =
-                    transactionHistory.signedTransactions[0];
-                if (!firstTransaction) {
-                    return { active: false };
-                }
-                const latestTransaction =
-                    await this.verifier.verifyAndDecodeTransaction(
-                        firstTransaction
-                    );
+        // Send Discord notification
+        await discordService.sendAppStoreNotification({
+            type: "REFUND_REVERSED",
+            userId,
+            productId: transaction.productId,
+            transactionId: transaction.originalTransactionId,
+            environment: this.toAppleEnvironment(transaction.environment),
+            price: transaction.price,
+            currency: transaction.currency,
+        });
+    }
+
+    private async handleConsumptionRequest(
+        userId: string,
+        transaction: JWSTransactionDecodedPayload,
+        notification: WebhookNotification
+    ): Promise<void> {
+        logger.info("Consumption information requested:", {
+            userId,
+            transactionId: transaction.transactionId,
+            reason: notification.data?.consumptionRequestReason,
+        });
+
+        if (transaction.transactionId) {
+            await databaseService.updateTransactionRefundStatus(
+                transaction.transactionId,
+                "requested"
+            );
+        }
+        await this.sendConsumptionInformation(userId, transaction);
+
+        // Send Discord notification
+        await discordService.sendAppStoreNotification({
+            type: "CONSUMPTION_REQUEST",
+            userId,
+            productId: transaction.productId,
+            transactionId: transaction.originalTransactionId,
+            environment: this.toAppleEnvironment(transaction.environment),
+            price: transaction.price,
+            currency: transaction.currency,
+            subtype: notification.data?.consumptionRequestReason,
+        });
+    }
+
+    /**
+     * Answer a CONSUMPTION_REQUEST. Apple only considers the data if it
+     * arrives within 12 hours, so a failure here fails the notification
+     * and leaves it for replay.
+     */
+    private async sendConsumptionInformation(
+        userId: string,
+        transaction: JWSTransactionDecodedPayload
+    ): Promise<void> {
+        if (!transaction.transactionId) {
+            return;
+        }
+
+        const consumptionRequest =
+            await consumptionService.buildConsumptionRequest(
+                userId,
+                transaction
+            );
+        if (!consumptionRequest) {
+            logger.info("Consumption information not sent without consent:", {
+                userId,
+                transactionId: transaction.transactionId,
+            });
+            return;
+        }
+
+        await this.clients[
+            this.toAppleEnvironment(transaction.environment)
+        ].sendConsumptionData(transaction.transactionId, consumptionRequest);
+
+        logger.info("Consumption information sent:", {
+            userId,
+            transactionId: transaction.transactionId,
+            consumptionStatus: consumptionRequest.consumptionStatus,
+        });
+    }
+
+    private async handleOfferRedeemed(
+        userId: string,
+        transaction: JWSTransactionDecodedPayload,
+        notification: WebhookNotification
+    ): Promise<void> {
+        logger.info("Offer redeemed:", {
+            userId,
+            transactionId: transaction.originalTransactionId,
+            subtype: notification.subtype,
+            offerType: transaction.offerType,
+            offerIdentifier: transaction.offerIdentifier,
+        });
+
+        // Upgrades switch product immediately
+        if (
+            notification.subtype === "UPGRADE" &&
+            transaction.originalTransactionId &&
+            transaction.productId
+        ) {
+            await databaseService.updateSubscriptionFields(
+                transaction.originalTransactionId,
+                { product_id: transaction.productId }
+            );
+        }
+        await databaseService.refreshUserSubscriptionStatus(userId);
+
+        // Send Discord notification
+        await discordService.sendAppStoreNotification({
+            type: "OFFER_REDEEMED",
+            userId,
+            productId: transaction.productId,
+            transactionId: transaction.originalTransactionId,
+            environment: this.toAppleEnvironment(transaction.environment),
+            price: transaction.price,
+            currency: transaction.currency,
+            subtype: notification.subtype,
+        });
+    }
+
+    private async handlePriceIncrease(
+        userId: string,
+        transaction: JWSTransactionDecodedPayload,
+        notification: WebhookNotification
+    ): Promise<void> {
+        logger.info("Price increase:", {
+            userId,
+            transactionId: transaction.originalTransactionId,
+            subtype: notification.subtype,
+        });
+
+        // Mirrors Apple's priceIncreaseStatus: 0 = not responded, 1 = consented
+        if (transaction.originalTransactionId) {
+            await databaseService.updateSubscriptionFields(
+                transaction.originalTransactionId,
+                {
+                    price_increase_status:
+                        notification.subtype === "ACCEPTED" ? 1 : 0,
+                }
+            );
+        }
+
+        // Send Discord notification
+        await discordService.sendAppStoreNotification({
+            type: "PRICE_INCREASE",
+            userId,
+            productId: transaction.productId,
+            transactionId: transaction.originalTransactionId,
+            environment: this.toAppleEnvironment(transaction.environment),
+            price: transaction.price,
+            currency: transaction.currency,
+            subtype: notification.subtype,
+        });
+    }
+
+    private async handleRevoke(
+        userId: string,
+        transaction: JWSTransactionDecodedPayload
+    ): Promise<void> {
+        logger.info("Family Sharing access revoked:", {
+            userId,
+            transactionId: transaction.originalTransactionId,
+            ownershipType: transaction.inAppOwnershipType,
+        });
+
+        // Each family member has their own original transaction, so only
+        // the member this notification names loses access
+        await databaseService.refreshUserSubscriptionStatus(userId);
+
+        // Send Discord notification
+        await discordService.sendAppStoreNotification({
+            type: "REVOKE",
+            userId,
+            productId: transaction.productId,
+            transactionId: transaction.originalTransactionId,
+            environment: this.toAppleEnvironment(transaction.environment),
+        });
+    }
+
+    private async handleRenewalExtended(
+        userId: string,
+        transaction: JWSTransactionDecodedPayload
+    ): Promise<void> {
+        logger.info("Subscription renewal date extended:", {
+            userId,
+            transactionId: transaction.originalTransactionId,
+            expiresDate: transaction.expiresDate,
+        });
+
+        // The new expiry is stored with the transaction in the ledger
+        await databaseService.refreshUserSubscriptionStatus(userId);
+
+        // Send Discord notification
+        await discordService.sendAppStoreNotification({
+            type: "RENEWAL_EXTENDED",
+            userId,
+            productId: transaction.productId,
+            transactionId: transaction.originalTransactionId,
+            environment: this.toAppleEnvironment(transaction.environment),
+        });
+    }
+
+    private async handleRenewalExtensionFailure(
+        userId: string,
+        transaction: JWSTransactionDecodedPayload
+    ): Promise<void> {
+        logger.warn("Subscription renewal date extension failed:", {
+            userId,
+            transactionId: transaction.originalTransactionId,
+        });
+
+        // Send Discord notification
+        await discordService.sendAppStoreNotification({
+            type: "RENEWAL_EXTENSION",
+            userId,
+            productId: transaction.productId,
+            transactionId: transaction.originalTransactionId,
+            environment: this.toAppleEnvironment(transaction.environment),
+            subtype: "FAILURE",
+        });
+    }
+
+    private async handleRenewalExtensionSummary(
+        notification: WebhookNotification
+    ): Promise<void> {
+        const summary = notification.summary;
+
+        logger.info("Mass renewal date extension completed:", {
+            requestIdentifier: summary?.requestIdentifier,
+            productId: summary?.productId,
+            succeededCount: summary?.succeededCount,
+            failedCount: summary?.failedCount,
+        });
+
+        if (summary?.requestIdentifier) {
+            await databaseService.updateRenewalExtensionRequest(
+                summary.requestIdentifier,
+                {
+                    status: "completed",
+                    succeeded_count: summary.succeededCount ?? null,
+                    failed_count: summary.failedCount ?? null,
+                    completed_at: new Date().toISOString(),
+                }
+            );
+        }
+
+        // Send Discord notification
+        await discordService.sendAppStoreNotification({
+            type: "RENEWAL_EXTENSION",
+            productId: summary?.productId,
+            environment: summary?.environment,
+            subtype: "SUMMARY",
+            details: `${summary?.succeededCount ?? 0} succeeded, ${
+                summary?.failedCount ?? 0
+            } failed`,
+        });
+    }
+
+    private async handleExternalPurchaseToken(
+        notification: WebhookNotification
+    ): Promise<void> {
+        const token = notification.externalPurchaseToken;
+
+        // We don't sell through external purchase links; log for visibility
+        logger.info("External purchase token received:", {
+            externalPurchaseId: token?.externalPurchaseId,
+            subtype: notification.subtype,
+        });
+
+        // Send Discord notification
+        await discordService.sendAppStoreNotification({
+            type: "EXTERNAL_PURCHASE_TOKEN",
+            subtype: notification.subtype,
+            details: token?.externalPurchaseId,
+        });
+    }
+
+    private async handleTestNotification(
+        notification: WebhookNotification
+    ): Promise<void> {
+        logger.info("Apple test notification received:", {
+            environment: notification.data?.environment,
+        });
+
+        // Send Discord notification
+        await discordService.sendAppStoreNotification({
+            type: "TEST",
+            environment: notification.data?.environment,
+        });
+    }
+
+    /**
+     * Apply a notification about a consumable or non-consumable purchase.
+     * The user comes from the ledger, or from appAccountToken if the app
+     * never validated the purchase.
+     */
+    private async processOneTimePurchaseNotification(
+        notification: WebhookNotification,
+        transaction: JWSTransactionDecodedPayload
+    ): Promise<"processed" | "ignored"> {
+        const { notificationType } = notification;
+        const existingTransaction = transaction.transactionId
+            ? await databaseService.getTransactionRecord(
+                  transaction.transactionId
+              )
+            : null;
+        // A family-shared transaction's token, if any, is the purchaser's
+        const userId =
+            existingTransaction?.user_id ||
+            (this.getOwnershipType(transaction) === "PURCHASED"
+                ? transaction.appAccountToken
+                : undefined);
+
+        if (!userId) {
+            throw new Error(
+                `No user found for one-time purchase: ${transaction.transactionId}`
+            );
+        }
+
+        await this.recordTransaction(
+            userId,
+            transaction,
+            this.toAppleEnvironment(transaction.environment)
+        );
+
+        switch (notificationType) {
+            case "ONE_TIME_CHARGE":
+                // A no-op if the app already validated the purchase
+                await this.grantOneTimePurchase(userId, transaction);
+                break;
+
+            case "REVOKE":
+                // Family Sharing stopped for this member only
+                await this.revokeOneTimePurchase(userId, transaction);
+                break;
+
+            case "REFUND":
+                await this.revokeOneTimePurchase(userId, transaction);
+                if (transaction.transactionId) {
+                    await databaseService.updateTransactionRefundStatus(
+                        transaction.transactionId,
+                        "refunded"
+                    );
+                }
+                break;
+
+            case "REFUND_REVERSED":
+                await this.grantOneTimePurchase(userId, transaction);
+                if (transaction.transactionId) {
+                    await databaseService.updateTransactionRefundStatus(
+                        transaction.transactionId,
+                        "reversed"
+                    );
+                }
+                break;
+
+            case "REFUND_DECLINED":
+                if (transaction.transactionId) {
+                    await databaseService.updateTransactionRefundStatus(
+                        transaction.transactionId,
+                        "declined"
+                    );
+                }
+                break;
+
+            case "CONSUMPTION_REQUEST":
+                if (transaction.transactionId) {
+                    await databaseService.updateTransactionRefundStatus(
+                        transaction.transactionId,
+                        "requested"
+                    );
+                }
+                await this.sendConsumptionInformation(userId, transaction);
+                break;
+
+            default:
+                logger.info("Unhandled one-time purchase notification:", {
+                    notificationType,
+                    transactionId: transaction.transactionId,
+                });
+                return "ignored";
+        }
+
+        // Send Discord notification
+        await discordService.sendAppStoreNotification({
+            type: notificationType,
+            userId,
+            productId: transaction.productId,
+            transactionId: transaction.transactionId,
+            environment: this.toAppleEnvironment(transaction.environment),
+            price: transaction.price,
+            currency: transaction.currency,
+            subtype: transaction.type,
+        });
+
+        return "processed";
+    }
+
+    private isOneTimePurchase(
+        transaction: JWSTransactionDecodedPayload
+    ): boolean {
+        return (
+            transaction.type === Type.CONSUMABLE ||
+            transaction.type === Type.NON_CONSUMABLE
+        );
+    }
+
+    /**
+     * Grant the entitlement a one-time purchase unlocks: the lifetime unlock
+     * for non-consumables, situation credits for consumable packs. The
+     * transaction's `granted` flag is claimed first, so only one of a
+     * validation and its notification, or of replayed REFUND_REVERSED
+     * notifications, adds the credits.
+     */
+    private async grantOneTimePurchase(
+        userId: string,
+        transaction: JWSTransactionDecodedPayload
+    ): Promise<boolean> {
+        const product = await this.getOneTimeProduct(transaction);
+
+        if (!product) {
+            logger.warn("Unknown one-time product, nothing granted", {
+                userId,
+                productId: transaction.productId,
+                type: transaction.type,
+            });
+            return false;
+        }
+
+        const { transactionId } = transaction;
+        if (
+            transactionId &&
+            !(await databaseService.setTransactionGranted(transactionId, true))
+        ) {
+            // Granted by someone else, unless the ledger row is missing
+            const record =
+                await databaseService.getTransactionRecord(transactionId);
+            logger.info("One-time purchase not granted again:", {
+                userId,
+                transactionId,
+                granted: !!record?.granted,
+            });
+            return !!record?.granted;
+        }
+
+        const granted = await entitlementService.grantOneTimeProduct(
+            userId,
+            product
+        );
+        if (!granted && transactionId) {
+            // Let a retry grant it
+            await databaseService.setTransactionGranted(transactionId, false);
+        }
+        return granted;
+    }
+
+    /**
+     * Take back a one-time purchase, once, however many REFUND or REVOKE
+     * notifications arrive for it
+     */
+    private async revokeOneTimePurchase(
+        userId: string,
+        transaction: JWSTransactionDecodedPayload
+    ): Promise<boolean> {
+        const product = await this.getOneTimeProduct(transaction);
+
+        if (!product) {
+            return false;
+        }
+
+        const { transactionId } = transaction;
+        if (
+            transactionId &&
+            !(await databaseService.setTransactionGranted(transactionId, false))
+        ) {
+            logger.info("One-time purchase not granted, nothing to revoke:", {
+                userId,
+                transactionId,
+            });
+            return true;
+        }
+
+        const revoked = await entitlementService.revokeOneTimeProduct(
+            userId,
+            product,
+            transactionId
+        );
+        if (!revoked && transactionId) {
+            await databaseService.setTransactionGranted(transactionId, true);
+        }
+        return revoked;
+    }
+
+    /**
+     * Catalog entry for a one-time purchase, provided the transaction's
+     * type matches what the catalog says the product is
+     */
+    private async getOneTimeProduct(
+        transaction: JWSTransactionDecodedPayload
+    ): Promise<ProductRecord | null> {
+        const product = await catalogService.getProduct(
+            transaction.productId || ""
+        );
+
+        if (
+            !product ||
+            product.type !== productTypeFromAppleType(transaction.type)
+        ) {
+            return null;
+        }
+
+        return product;
+    }
+
+    /**
+     * Create the subscription record for a transaction that reached us only
+     * through a webhook. The app sets appAccountToken to the user's id at
+     * purchase time, same as validateReceipt relies on.
+     */
+    private async createSubscriptionFromAppAccountToken(
+        transaction: JWSTransactionDecodedPayload
+    ): Promise<SubscriptionRecord | null> {
+        const userId = transaction.appAccountToken;
+
+        // Family members have to validate their own transaction first
+        if (
+            this.getOwnershipType(transaction) === "FAMILY_SHARED" ||
+            !userId ||
+            !transaction.originalTransactionId ||
+            !transaction.productId
+        ) {
+            return null;
+        }
+
+        const profile = await databaseService.getUserProfile(userId);
+        if (!profile) {
+            logger.warn("appAccountToken does not match a user profile", {
+                appAccountToken: userId,
+                transactionId: transaction.originalTransactionId,
+            });
+            return null;
+        }
+
+        logger.info("Creating subscription record from appAccountToken", {
+            userId,
+            transactionId: transaction.originalTransactionId,
+        });
+
+        return databaseService.insertSubscriptionRecord({
+            user_id: userId,
+            product_id: transaction.productId,
+            transaction_id: transaction.originalTransactionId,
+            ownership_type: "PURCHASED",
+            environment: this.toAppleEnvironment(transaction.environment),
+            purchased_at: new Date(
+                transaction.originalPurchaseDate ||
+                    transaction.purchaseDate ||
+                    Date.now()
+            ).toISOString(),
+        });
+    }
+
+    /**
+     * Validate and persist a status change for a subscription.
+     * "rejected" means the transition is illegal from the stored status,
+     * "failed" means it was legal but could not be stored.
+     */
+    private async transitionStatus(
+        subscription: SubscriptionRecord,
+        toStatus: SubscriptionStatus,
+        notificationType: string,
+        subtype?: string
+    ): Promise<"applied" | "rejected" | "failed"> {
+        const fromStatus = subscription.status ?? null;
+
+        if (!isTransitionAllowed(fromStatus, toStatus)) {
+            logger.warn("Rejected illegal subscription status transition:", {
+                userId: subscription.user_id,
+                transactionId: subscription.transaction_id,
+                fromStatus,
+                toStatus,
+                notificationType,
+                subtype,
+            });
+            return "rejected";
+        }
+
+        if (fromStatus === toStatus) {
+            return "applied";
+        }
 
-                if (latestTransaction) {
-                    const isActive =
-                        this.isSubscriptionActive(latestTransaction);
-                    const result: { active: boolean; expiresDate?: string } = {
-                        active: isActive,
-                    };
-                    if (latestTransaction.expiresDate) {
-                        result.expiresDate = new Date(
-                            latestTransaction.expiresDate
-                        ).toISOString();
+        const updated = await databaseService.updateSubscriptionStatus(
+            subscription,
+            toStatus,
+            notificationType,
+            subtype
+        );
+        return updated ? "applied" : "failed";
+    }
+
+    /**
+     * Remember the newest notification and transaction applied to a
+     * subscription so late deliveries can be recognized as stale. The
+     * newest transaction's expiry becomes the subscription's.
+     */
+    private async recordEventOrder(
+        subscription: SubscriptionRecord,
+        signedDate: number | undefined,
+        purchaseDate: number | undefined,
+        expiresDate: number | undefined
+    ): Promise<void> {
+        const fields: Partial<SubscriptionRecord> = {};
+
+        if (signedDate) {
+            fields.last_event_signed_at = new Date(signedDate).toISOString();
+        }
+
+        const lastPurchasedAt = subscription.last_transaction_purchased_at
+            ? Date.parse(subscription.last_transaction_purchased_at)
+            : 0;
+        if (purchaseDate && purchaseDate > lastPurchasedAt) {
+            fields.last_transaction_purchased_at = new Date(
+                purchaseDate
+            ).toISOString();
+        }
+
+        // Renewal date extensions move the expiry of the same transaction
+        if (expiresDate && (purchaseDate ?? 0) >= lastPurchasedAt) {
+            fields.expires_at = new Date(expiresDate).toISOString();
+        }
+
+        if (Object.keys(fields).length > 0) {
+            await databaseService.updateSubscriptionFields(
+                subscription.transaction_id,
+                fields
+            );
+        }
+    }
+
+    /**
+     * Verify the notification's renewal info and store the renewal state
+     * (auto-renew, pending product, why it expires) on the subscription
+     */
+    private async recordRenewalInfo(
+        originalTransactionId: string,
+        signedRenewalInfo: string,
+        environment: AppleEnvironment
+    ): Promise<JWSRenewalInfoDecodedPayload | null> {
+        try {
+            const renewalInfo =
+                await this.verifiers[environment].verifyAndDecodeRenewalInfo(
+                    signedRenewalInfo
+                );
+
+            await databaseService.updateSubscriptionFields(
+                originalTransactionId,
+                {
+                    auto_renew_status: renewalInfo.autoRenewStatus ?? null,
+                    auto_renew_product_id:
+                        renewalInfo.autoRenewProductId ?? null,
+                    expiration_intent: renewalInfo.expirationIntent ?? null,
+                    grace_period_expires_at: renewalInfo.gracePeriodExpiresDate
+                        ? new Date(
+                              renewalInfo.gracePeriodExpiresDate
+                          ).toISOString()
+                        : null,
+                    is_in_billing_retry_period:
+                        renewalInfo.isInBillingRetryPeriod ?? null,
+                    price_increase_status:
+                        renewalInfo.priceIncreaseStatus ?? null,
+                }
+            );
+
+            return renewalInfo;
+        } catch (error) {
+            logger.error("Failed to decode renewal info:", error);
+            return null;
+        }
+    }
+
+    private async recordTransaction(
+        userId: string,
+        transaction: JWSTransactionDecodedPayload,
+        environment: "Sandbox" | "Production"
+    ): Promise<void> {
+        if (!transaction.transactionId || !transaction.productId) {
+            logger.warn("Transaction missing identifiers, not recorded", {
+                userId,
+                originalTransactionId: transaction.originalTransactionId,
+            });
+            return;
+        }
+
+        await databaseService.insertTransactionRecord({
+            user_id: userId,
+            transaction_id: transaction.transactionId,
+            original_transaction_id:
+                transaction.originalTransactionId || transaction.transactionId,
+            product_id: transaction.productId,
+            environment,
+            purchased_at: new Date(
+                transaction.purchaseDate || Date.now()
+            ).toISOString(),
+            expires_at: transaction.expiresDate
+                ? new Date(transaction.expiresDate).toISOString()
+                : null,
+            price: transaction.price ?? null,
+            currency: transaction.currency ?? null,
+            offer_type: transaction.offerType ?? null,
+            offer_identifier: transaction.offerIdentifier ?? null,
+            revocation_date: transaction.revocationDate
+                ? new Date(transaction.revocationDate).toISOString()
+                : null,
+            revocation_reason: transaction.revocationReason ?? null,
+            product_type: transaction.type ?? null,
+            ownership_type: this.getOwnershipType(transaction),
+        });
+
+        // Introductory, promotional, offer code and win-back redemptions
+        if (transaction.offerType || transaction.offerIdentifier) {
+            await databaseService.insertOfferRedemption({
+                user_id: userId,
+                transaction_id: transaction.transactionId,
+                original_transaction_id:
+                    transaction.originalTransactionId ||
+                    transaction.transactionId,
+                product_id: transaction.productId,
+                offer_type: transaction.offerType ?? null,
+                offer_identifier: transaction.offerIdentifier ?? null,
+                environment,
+                redeemed_at: new Date(
+                    transaction.purchaseDate || Date.now()
+                ).toISOString(),
+            });
+        }
+    }
+
+    private async isSubscriptionActive(
+        transaction: JWSTransactionDecodedPayload
+    ): Promise<boolean> {
+        // Check if the transaction is for a subscription product
+        if (
+            !transaction.productId ||
+            !(await catalogService.isSubscriptionProduct(transaction.productId))
+        ) {
+            return false;
+        }
+
+        // For subscriptions, check if it hasn't expired
+        if (transaction.expiresDate) {
+            const expiresDate = new Date(transaction.expiresDate);
+            const now = new Date();
+            return expiresDate > now;
+        }
+
+        // If no expiry date, it might be a non-renewable purchase
+        return true;
+    }
+
+    /**
+     * Current subscription status from Apple, across every subscription group
+     * the user's original transactions belong to. The most favorable status
+     * wins (active before grace period before billing retry, and so on).
+     */
+    async getSubscriptionStatus(
+        userId: string
+    ): Promise<AppleSubscriptionStatus> {
+        try {
+            const subscriptions = await databaseService.getActiveSubscriptions(
+                userId
+            );
+
+            if (subscriptions.length === 0) {
+                return { active: false };
+            }
+
+            const candidates: AppleSubscriptionStatus[] = [];
+            const seenTransactions = new Set<string>();
+
+            for (const subscription of subscriptions) {
+                // Statuses cover the whole group, so one lookup per group is enough
+                if (seenTransactions.has(subscription.transaction_id)) {
+                    continue;
+                }
+
+                // Google and Stripe subscriptions are kept current by their webhooks
+                if (!this.isAppStore(subscription)) {
+                    const status = getEffectiveStatus(subscription);
+                    const latest = (
+                        await databaseService.getTransactionHistory(userId)
+                    ).find(
+                        (record) =>
+                            record.original_transaction_id ===
+                            subscription.transaction_id
+                    );
+                    candidates.push({
+                        active: statusGrantsAccess(status),
+                        status,
+                        ...(latest?.expires_at && {
+                            expiresDate: latest.expires_at,
+                        }),
+                        ...(subscription.auto_renew_status != null && {
+                            autoRenewStatus: subscription.auto_renew_status,
+                        }),
+                    });
+                    continue;
+                }
+
+                const response = await this.clients[
+                    subscription.environment
+                ].getAllSubscriptionStatuses(subscription.transaction_id);
+
+                for (const group of response.data || []) {
+                    for (const item of group.lastTransactions || []) {
+                        if (item.originalTransactionId) {
+                            seenTransactions.add(item.originalTransactionId);
+                        }
+
+                        candidates.push(
+                            await this.decodeSubscriptionStatus(
+                                item,
+                                group.subscriptionGroupIdentifier,
+                                subscription.environment
+                            )
+                        );
                     }
-                    return result;
                 }
             }
 
-            return { active: false };
+            const best = candidates.sort(
+                (a, b) =>
+                    statusPriority(a.status ?? "expired") -
+                        statusPriority(b.status ?? "expired") ||
+                    Date.parse(b.expiresDate ?? "0") -
+                        Date.parse(a.expiresDate ?? "0")
+            )[0];
+
+            return best || { active: false };
         } catch (error) {
             logger.error("Error checking subscription status:", error);
-            return { active: false };
+            return { active: false, lookupFailed: true };
+        }
+    }
+
+    /**
+     * Apple's current status for one stored subscription, or null if Apple
+     * doesn't return it
+     */
+    async getAppleStatusForSubscription(
+        subscription: SubscriptionRecord
+    ): Promise<AppleSubscriptionStatus | null> {
+        const response = await this.clients[
+            subscription.environment
+        ].getAllSubscriptionStatuses(subscription.transaction_id);
+
+        for (const group of response.data || []) {
+            const item = (group.lastTransactions || []).find(
+                (lastTransaction) =>
+                    lastTransaction.originalTransactionId ===
+                    subscription.transaction_id
+            );
+            if (item) {
+                return this.decodeSubscriptionStatus(
+                    item,
+                    group.subscriptionGroupIdentifier,
+                    subscription.environment
+                );
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Full transaction history for an original transaction, newest first.
+     * Apple pages the history; follow `revision` until `hasMore` is false.
+     */
+    async getTransactionHistory(
+        originalTransactionId: string,
+        environment: AppleEnvironment
+    ): Promise<JWSTransactionDecodedPayload[]> {
+        const transactionHistoryRequest: TransactionHistoryRequest = {
+            sort: Order.DESCENDING,
+        };
+        const transactions: JWSTransactionDecodedPayload[] = [];
+        let revision: string | null = null;
+
+        do {
+            const response: HistoryResponse = await this.clients[
+                environment
+            ].getTransactionHistory(
+                originalTransactionId,
+                revision,
+                transactionHistoryRequest
+            );
+
+            for (const signedTransaction of response.signedTransactions || []) {
+                transactions.push(
+                    await this.verifiers[
+                        environment
+                    ].verifyAndDecodeTransaction(signedTransaction)
+                );
+            }
+
+            revision = response.hasMore ? response.revision ?? null : null;
+        } while (revision);
+
+        return transactions;
+    }
+
+    /**
+     * Backfill the transactions ledger with Apple's history for every
+     * subscription the user has
+     */
+    async syncTransactionHistory(userId: string): Promise<number> {
+        const subscriptions = (
+            await databaseService.getActiveSubscriptions(userId)
+        ).filter((subscription) => this.isAppStore(subscription));
+        let recorded = 0;
+
+        for (const subscription of subscriptions) {
+            try {
+                const transactions = await this.getTransactionHistory(
+                    subscription.transaction_id,
+                    subscription.environment
+                );
+
+                for (const transaction of transactions) {
+                    await this.recordTransaction(
+                        userId,
+                        transaction,
+                        subscription.environment
+                    );
+                    recorded++;
+                }
+            } catch (error) {
+                logger.error("Error syncing transaction history:", {
+                    userId,
+                    transactionId: subscription.transaction_id,
+                    error,
+                });
+            }
+        }
+
+        return recorded;
+    }
+
+    /**
+     * Refunded transactions Apple has on record for the user, newest first.
+     * Refund history is per Apple account, so any of the user's
+     * transactions identifies it.
+     */
+    async getRefundHistory(
+        userId: string
+    ): Promise<JWSTransactionDecodedPayload[]> {
+        const reference =
+            (await databaseService.getTransactionHistory(userId)).find(
+                (record) => this.isAppStore(record)
+            ) ||
+            (await databaseService.getActiveSubscriptions(userId)).find(
+                (subscription) => this.isAppStore(subscription)
+            );
+
+        if (!reference) {
+            return [];
+        }
+
+        const { transaction_id: transactionId, environment } = reference;
+        const refunds: JWSTransactionDecodedPayload[] = [];
+        let revision: string | null = null;
+
+        do {
+            const response: RefundHistoryResponse = await this.clients[
+                environment
+            ].getRefundHistory(transactionId, revision);
+
+            for (const signedTransaction of response.signedTransactions || []) {
+                refunds.push(
+                    await this.verifiers[
+                        environment
+                    ].verifyAndDecodeTransaction(signedTransaction)
+                );
+            }
+
+            revision = response.hasMore ? (response.revision ?? null) : null;
+        } while (revision);
+
+        return refunds;
+    }
+
+    /**
+     * Extend the renewal date of each of the user's subscriptions that still
+     * grants access. Apple applies single extensions synchronously; the new
+     * expiry lands in the ledger with the RENEWAL_EXTENDED notification.
+     */
+    async extendRenewalDateForUser(
+        userId: string,
+        extendByDays: number,
+        extendReasonCode: ExtendReasonCode
+    ): Promise<RenewalExtensionRequestRecord[]> {
+        const subscriptions = (
+            await databaseService.getActiveSubscriptions(userId)
+        ).filter(
+            (subscription) =>
+                this.isAppStore(subscription) &&
+                statusGrantsAccess(getEffectiveStatus(subscription))
+        );
+        const requests: RenewalExtensionRequestRecord[] = [];
+
+        for (const subscription of subscriptions) {
+            const requestIdentifier = randomUUID();
+            const request: RenewalExtensionRequestRecord = {
+                request_identifier: requestIdentifier,
+                scope: "user",
+                user_id: userId,
+                product_id: subscription.product_id,
+                original_transaction_id: subscription.transaction_id,
+                extend_by_days: extendByDays,
+                extend_reason_code: extendReasonCode,
+                environment: subscription.environment,
+                status: "pending",
+            };
+
+            try {
+                const response = await this.clients[
+                    subscription.environment
+                ].extendSubscriptionRenewalDate(subscription.transaction_id, {
+                    extendByDays,
+                    extendReasonCode,
+                    requestIdentifier,
+                });
+
+                request.status = response.success ? "completed" : "failed";
+                request.completed_at = new Date().toISOString();
+                if (response.effectiveDate) {
+                    request.effective_date = new Date(
+                        response.effectiveDate
+                    ).toISOString();
+                }
+            } catch (error) {
+                logger.error("Error extending subscription renewal date:", {
+                    userId,
+                    transactionId: subscription.transaction_id,
+                    error,
+                });
+                request.status = "failed";
+                request.error =
+                    error instanceof Error ? error.message : String(error);
+            }
+
+            requests.push(
+                (await databaseService.insertRenewalExtensionRequest(
+                    request
+                )) || request
+            );
         }
+
+        return requests;
+    }
+
+    /**
+     * Ask Apple to extend every active subscriber of a product. Apple works
+     * through the request in the background; poll it with
+     * getRenewalExtensionStatus or wait for the RENEWAL_EXTENSION summary.
+     */
+    async extendRenewalDateForProduct(
+        productId: string,
+        extendByDays: number,
+        extendReasonCode: ExtendReasonCode,
+        storefrontCountryCodes?: string[],
+        environment: AppleEnvironment = config.apple.environment
+    ): Promise<RenewalExtensionRequestRecord | null> {
+        const requestIdentifier = randomUUID();
+
+        await this.clients[
+            environment
+        ].extendRenewalDateForAllActiveSubscribers({
+            productId,
+            extendByDays,
+            extendReasonCode,
+            requestIdentifier,
+            ...(storefrontCountryCodes && { storefrontCountryCodes }),
+        });
+
+        logger.info("Mass renewal date extension requested:", {
+            requestIdentifier,
+            productId,
+            extendByDays,
+        });
+
+        return databaseService.insertRenewalExtensionRequest({
+            request_identifier: requestIdentifier,
+            scope: "product",
+            product_id: productId,
+            extend_by_days: extendByDays,
+            extend_reason_code: extendReasonCode,
+            storefront_country_codes: storefrontCountryCodes ?? null,
+            environment,
+            status: "pending",
+        });
+    }
+
+    /**
+     * Refresh a stored extension request. Mass extensions are polled from
+     * Apple until complete; single extensions already have their outcome.
+     */
+    async getRenewalExtensionStatus(
+        requestIdentifier: string
+    ): Promise<RenewalExtensionRequestRecord | null> {
+        const request =
+            await databaseService.getRenewalExtensionRequest(requestIdentifier);
+
+        if (!request || request.scope !== "product" || request.completed_at) {
+            return request;
+        }
+
+        const response = await this.clients[
+            request.environment
+        ].getStatusOfSubscriptionRenewalDateExtensions(
+            requestIdentifier,
+            request.product_id
+        );
+
+        if (!response.complete) {
+            return request;
+        }
+
+        const fields = {
+            status: "completed" as const,
+            succeeded_count: response.succeededCount ?? null,
+            failed_count: response.failedCount ?? null,
+            completed_at: new Date(
+                response.completeDate || Date.now()
+            ).toISOString(),
+        };
+        await databaseService.updateRenewalExtensionRequest(
+            requestIdentifier,
+            fields
+        );
+
+        return { ...request, ...fields };
+    }
+
+    private async decodeSubscriptionStatus(
+        item: LastTransactionsItem,
+        subscriptionGroupIdentifier: string | undefined,
+        environment: AppleEnvironment
+    ): Promise<AppleSubscriptionStatus> {
+        const status = fromAppleStatus(item.status);
+        const result: AppleSubscriptionStatus = {
+            active: statusGrantsAccess(status),
+            status,
+        };
+
+        if (subscriptionGroupIdentifier) {
+            result.subscriptionGroupIdentifier = subscriptionGroupIdentifier;
+        }
+
+        if (item.signedTransactionInfo) {
+            const transaction = await this.verifiers[
+                environment
+            ].verifyAndDecodeTransaction(item.signedTransactionInfo);
+            result.latestTransaction = transaction;
+            if (transaction.expiresDate) {
+                result.expiresDate = new Date(
+                    transaction.expiresDate
+                ).toISOString();
+            }
+        }
+
+        if (item.signedRenewalInfo) {
+            const renewalInfo = await this.verifiers[
+                environment
+            ].verifyAndDecodeRenewalInfo(item.signedRenewalInfo);
+            result.renewalInfo = renewalInfo;
+            if (renewalInfo.gracePeriodExpiresDate) {
+                result.gracePeriodExpiresDate = new Date(
+                    renewalInfo.gracePeriodExpiresDate
+                ).toISOString();
+            }
+            if (renewalInfo.autoRenewProductId) {
+                result.autoRenewProductId = renewalInfo.autoRenewProductId;
+            }
+            if (renewalInfo.autoRenewStatus !== undefined) {
+                result.autoRenewStatus = renewalInfo.autoRenewStatus;
+            }
+        }
+
+        return result;
     }
 }
 
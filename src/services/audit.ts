@@ -0,0 +1,59 @@
+import logger from "@/utils/logger";
+import { AuditDiff, AuthenticatedApiKey } from "@/types";
+import { databaseService } from "./database";
+
+class AuditService {
+    /**
+     * Write an admin action to the audit log, attributed to the person the
+     * key belongs to. The action has already happened by then, so a failed
+     * write is logged rather than thrown.
+     */
+    async record(
+        actor: AuthenticatedApiKey,
+        action: string,
+        target: { type: string; id: string },
+        diff: AuditDiff | null = null,
+        reason: string | null = null
+    ): Promise<void> {
+        const entry = {
+            actor: actor.owner ?? actor.name,
+            actor_key_id: actor.id,
+            action,
+            target_type: target.type,
+            target_id: target.id,
+            diff,
+            reason,
+        };
+
+        if (!(await databaseService.insertAuditLogEntry(entry))) {
+            logger.error("Failed to write audit log entry:", entry);
+        }
+    }
+
+    /**
+     * Fields that differ between two versions of a record. Missing records
+     * count as empty.
+     */
+    diff(
+        before: Record<string, unknown> | null,
+        after: Record<string, unknown> | null
+    ): AuditDiff {
+        const changes: AuditDiff = {};
+        const keys = new Set([
+            ...Object.keys(before || {}),
+            ...Object.keys(after || {}),
+        ]);
+
+        for (const key of keys) {
+            const from = before?.[key] ?? null;
+            const to = after?.[key] ?? null;
+            if (JSON.stringify(from) !== JSON.stringify(to)) {
+                changes[key] = { from, to };
+            }
+        }
+
+        return changes;
+    }
+}
+
+export const auditService = new AuditService();
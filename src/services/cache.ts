@@ -1,10 +1,12 @@
 import Redis from "ioredis";
-import { createHash } from "crypto";
+import { createHash, randomUUID } from "crypto";
 import logger from "@/utils/logger";
 
 class CacheService {
     private redis: Redis | null = null;
     private readonly TTS_PREFIX = "tts:";
+    private readonly LOCK_PREFIX = "lock:";
+    private readonly RATE_LIMIT_PREFIX = "ratelimit:";
 
     constructor() {
         this.initializeRedis();
@@ -15,7 +17,7 @@ class CacheService {
 
         if (!redisUrl) {
             logger.warn(
-                "REDIS_URL not configured - TTS caching will be disabled"
+                "REDIS_URL not configured - TTS caching and rate limiting will be disabled"
             );
             return;
         }
@@ -157,6 +159,110 @@ class CacheService {
         }
     }
 
+    isAvailable(): boolean {
+        return this.redis !== null;
+    }
+
+    /**
+     * Take a lock shared by every instance, held until released or `ttlMs`
+     * passes. Returns the token to release it with, or null if another
+     * instance holds it or Redis is unavailable.
+     */
+    async acquireLock(name: string, ttlMs: number): Promise<string | null> {
+        if (!this.redis) {
+            return null;
+        }
+
+        try {
+            const token = randomUUID();
+            const result = await this.redis.set(
+                `${this.LOCK_PREFIX}${name}`,
+                token,
+                "PX",
+                ttlMs,
+                "NX"
+            );
+            return result === "OK" ? token : null;
+        } catch (error) {
+            logger.error("Error acquiring lock:", { name, error });
+            return null;
+        }
+    }
+
+    /**
+     * Release a lock, unless it expired and another instance took it since
+     */
+    async releaseLock(name: string, token: string): Promise<void> {
+        if (!this.redis) {
+            return;
+        }
+
+        try {
+            await this.redis.eval(
+                'if redis.call("get", KEYS[1]) == ARGV[1] then return redis.call("del", KEYS[1]) else return 0 end',
+                1,
+                `${this.LOCK_PREFIX}${name}`,
+                token
+            );
+        } catch (error) {
+            logger.error("Error releasing lock:", { name, error });
+        }
+    }
+
+    /**
+     * Count a request against a sliding window shared by every instance.
+     * Requests over the limit aren't counted, nor any with `record` false,
+     * which only checks for room. Returns null if Redis is unavailable, so
+     * callers can fall back to a local window.
+     */
+    async hitRateLimit(
+        key: string,
+        limit: number,
+        windowMs: number,
+        record = true
+    ): Promise<{ allowed: boolean; count: number; resetMs: number } | null> {
+        if (!this.redis) {
+            return null;
+        }
+
+        try {
+            const now = Date.now();
+            // Timestamps of the window's requests, oldest evicted first
+            const [allowed, count, oldest] = (await this.redis.eval(
+                `redis.call("zremrangebyscore", KEYS[1], "-inf", ARGV[1] - ARGV[2])
+                local count = redis.call("zcard", KEYS[1])
+                local allowed = 0
+                if count < tonumber(ARGV[3]) then
+                    if ARGV[5] == "1" then
+                        redis.call("zadd", KEYS[1], ARGV[1], ARGV[4])
+                        count = count + 1
+                    end
+                    allowed = 1
+                end
+                redis.call("pexpire", KEYS[1], ARGV[2])
+                local oldest = redis.call("zrange", KEYS[1], 0, 0, "WITHSCORES")
+                return {allowed, count, tonumber(oldest[2] or ARGV[1])}`,
+                1,
+                `${this.RATE_LIMIT_PREFIX}${key}`,
+                now,
+                windowMs,
+                limit,
+                `${now}:${randomUUID()}`,
+                record ? "1" : "0"
+            )) as [number, number, number];
+
+            return {
+                allowed: allowed === 1,
+                count,
+                // When the oldest request leaves the window
+                resetMs: Math.max(oldest + windowMs - now, 0),
+            };
+        } catch (error) {
+            logger.error("Error checking rate limit:", { key, error });
+            return null;
+        }
+    }
+
     /**
      * Close Redis connection gracefully
      */
@@ -0,0 +1,100 @@
+import { Type } from "@apple/app-store-server-library";
+import logger from "@/utils/logger";
+import { ProductRecord, ProductType } from "@/types";
+import { databaseService } from "./database";
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+class CatalogService {
+    private products: ProductRecord[] = [];
+    private loadedAt = 0;
+
+    /**
+     * All products, including retired ones.
+     * Cached for a few minutes; if the database is unreachable the last
+     * loaded catalog keeps being served.
+     */
+    async getProducts(): Promise<ProductRecord[]> {
+        if (Date.now() - this.loadedAt < CACHE_TTL_MS) {
+            return this.products;
+        }
+
+        const products = await databaseService.getProducts();
+        if (products) {
+            this.products = products;
+            this.loadedAt = Date.now();
+            logger.info("Product catalog loaded", { count: products.length });
+        } else {
+            logger.warn("Using cached product catalog", {
+                count: this.products.length,
+            });
+        }
+
+        return this.products;
+    }
+
+    /**
+     * Products currently for sale
+     */
+    async getActiveProducts(): Promise<ProductRecord[]> {
+        const products = await this.getProducts();
+        return products.filter((product) => product.active);
+    }
+
+    async getProduct(productId: string): Promise<ProductRecord | null> {
+        const products = await this.getProducts();
+        return (
+            products.find((product) => product.product_id === productId) || null
+        );
+    }
+
+    /**
+     * The catalog product sold on the web at a Stripe price
+     */
+    async getProductByStripePriceId(
+        priceId: string
+    ): Promise<ProductRecord | null> {
+        const products = await this.getProducts();
+        return (
+            products.find((product) => product.stripe_price_id === priceId) ||
+            null
+        );
+    }
+
+    /**
+     * Retired products stay known so existing subscribers keep access
+     */
+    async isSubscriptionProduct(productId: string): Promise<boolean> {
+        const product = await this.getProduct(productId);
+        return product?.type === "auto_renewable";
+    }
+
+    /**
+     * Drop the cached catalog so the next lookup reads the database
+     */
+    invalidate(): void {
+        this.loadedAt = 0;
+    }
+}
+
+/**
+ * Map the `type` of a decoded App Store transaction to the catalog product type
+ */
+export function productTypeFromAppleType(
+    type: string | undefined
+): ProductType | null {
+    switch (type) {
+        case Type.AUTO_RENEWABLE_SUBSCRIPTION:
+            return "auto_renewable";
+        case Type.NON_RENEWING_SUBSCRIPTION:
+            return "non_renewing";
+        case Type.NON_CONSUMABLE:
+            return "non_consumable";
+        case Type.CONSUMABLE:
+            return "consumable";
+        default:
+            return null;
+    }
+}
+
+export const catalogService = new CatalogService();
@@ -0,0 +1,187 @@
+import {
+    AccountTenure,
+    ConsumptionRequest,
+    ConsumptionStatus,
+    DeliveryStatus,
+    JWSTransactionDecodedPayload,
+    LifetimeDollarsPurchased,
+    Platform,
+    PlayTime,
+    UserStatus,
+} from "@apple/app-store-server-library";
+import { TransactionRecord, UserProfile } from "@/types";
+import { catalogService } from "./catalog";
+import { databaseService } from "./database";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Upper bounds (exclusive) for Apple's account tenure buckets, in days
+const TENURE_BUCKETS: [number, AccountTenure][] = [
+    [3, AccountTenure.ZERO_TO_THREE_DAYS],
+    [10, AccountTenure.THREE_DAYS_TO_TEN_DAYS],
+    [30, AccountTenure.TEN_DAYS_TO_THIRTY_DAYS],
+    [90, AccountTenure.THIRTY_DAYS_TO_NINETY_DAYS],
+    [180, AccountTenure.NINETY_DAYS_TO_ONE_HUNDRED_EIGHTY_DAYS],
+    [
+        365,
+        AccountTenure.ONE_HUNDRED_EIGHTY_DAYS_TO_THREE_HUNDRED_SIXTY_FIVE_DAYS,
+    ],
+];
+
+// Upper bounds (exclusive) for Apple's lifetime spend buckets, in dollars.
+// LifetimeDollarsRefunded uses the same values.
+const DOLLAR_BUCKETS: [number, LifetimeDollarsPurchased][] = [
+    [0.01, LifetimeDollarsPurchased.ZERO_DOLLARS],
+    [
+        50,
+        LifetimeDollarsPurchased.ONE_CENT_TO_FORTY_NINE_DOLLARS_AND_NINETY_NINE_CENTS,
+    ],
+    [
+        100,
+        LifetimeDollarsPurchased.FIFTY_DOLLARS_TO_NINETY_NINE_DOLLARS_AND_NINETY_NINE_CENTS,
+    ],
+    [
+        500,
+        LifetimeDollarsPurchased.ONE_HUNDRED_DOLLARS_TO_FOUR_HUNDRED_NINETY_NINE_DOLLARS_AND_NINETY_NINE_CENTS,
+    ],
+    [
+        1000,
+        LifetimeDollarsPurchased.FIVE_HUNDRED_DOLLARS_TO_NINE_HUNDRED_NINETY_NINE_DOLLARS_AND_NINETY_NINE_CENTS,
+    ],
+    [
+        2000,
+        LifetimeDollarsPurchased.ONE_THOUSAND_DOLLARS_TO_ONE_THOUSAND_NINE_HUNDRED_NINETY_NINE_DOLLARS_AND_NINETY_NINE_CENTS,
+    ],
+];
+
+class ConsumptionService {
+    /**
+     * Build the Send Consumption Information payload Apple asks for on
+     * CONSUMPTION_REQUEST, from the profile and the transactions ledger.
+     * Fields we can't measure are reported as undeclared. Returns null
+     * unless the user consented to sharing consumption data.
+     */
+    async buildConsumptionRequest(
+        userId: string,
+        transaction: JWSTransactionDecodedPayload
+    ): Promise<ConsumptionRequest | null> {
+        const [profile, transactions] = await Promise.all([
+            databaseService.getUserProfile(userId),
+            databaseService.getTransactionHistory(userId),
+        ]);
+
+        if (!profile?.consumption_data_consent) {
+            return null;
+        }
+
+        return {
+            customerConsented: true,
+            consumptionStatus: await this.getConsumptionStatus(
+                profile,
+                transaction
+            ),
+            platform: Platform.APPLE,
+            // Free situations let everyone try the app before paying
+            sampleContentProvided: true,
+            deliveryStatus: this.getDeliveryStatus(transactions, transaction),
+            appAccountToken: transaction.appAccountToken || "",
+            accountTenure: this.getAccountTenure(profile),
+            playTime: PlayTime.UNDECLARED,
+            lifetimeDollarsPurchased:
+                this.getLifetimeDollarsBucket(transactions),
+            lifetimeDollarsRefunded: this.getLifetimeDollarsBucket(
+                transactions.filter(
+                    (record) =>
+                        record.refund_status === "refunded" ||
+                        !!record.revocation_date
+                )
+            ),
+            // Accounts can't be suspended, and deleted ones have no profile
+            // to consent, so anyone we report on is active
+            userStatus: UserStatus.ACTIVE,
+        };
+    }
+
+    /**
+     * Delivered if the purchase reached the ledger, which is where every
+     * grant starts. Apple's API has no undeclared delivery status.
+     */
+    private getDeliveryStatus(
+        transactions: TransactionRecord[],
+        transaction: JWSTransactionDecodedPayload
+    ): DeliveryStatus {
+        const delivered = transactions.some(
+            (record) => record.transaction_id === transaction.transactionId
+        );
+        return delivered
+            ? DeliveryStatus.DELIVERED_AND_WORKING_PROPERLY
+            : DeliveryStatus.DID_NOT_DELIVER_FOR_OTHER_REASON;
+    }
+
+    private async getConsumptionStatus(
+        profile: UserProfile | null,
+        transaction: JWSTransactionDecodedPayload
+    ): Promise<ConsumptionStatus> {
+        if (!profile) {
+            return ConsumptionStatus.UNDECLARED;
+        }
+
+        // Situation packs: compare what's left against what was bought
+        const product = await catalogService.getProduct(
+            transaction.productId || ""
+        );
+        if (product?.type === "consumable" && product.situation_credits) {
+            if (profile.situation_credits >= product.situation_credits) {
+                return ConsumptionStatus.NOT_CONSUMED;
+            }
+            return profile.situation_credits > 0
+                ? ConsumptionStatus.PARTIALLY_CONSUMED
+                : ConsumptionStatus.FULLY_CONSUMED;
+        }
+
+        // Subscriptions and the lifetime unlock are used, never used up
+        const used =
+            profile.free_situations_completed > 0 ||
+            (profile.tts_requests || 0) > 0;
+        return used
+            ? ConsumptionStatus.PARTIALLY_CONSUMED
+            : ConsumptionStatus.NOT_CONSUMED;
+    }
+
+    private getAccountTenure(profile: UserProfile | null): AccountTenure {
+        if (!profile?.created_at) {
+            return AccountTenure.UNDECLARED;
+        }
+
+        const days = (Date.now() - Date.parse(profile.created_at)) / DAY_MS;
+        const bucket = TENURE_BUCKETS.find(([maxDays]) => days < maxDays);
+        return bucket
+            ? bucket[1]
+            : AccountTenure.GREATER_THAN_THREE_HUNDRED_SIXTY_FIVE_DAYS;
+    }
+
+    /**
+     * Apple's lifetime spend buckets, shared by purchased and refunded.
+     * Ledger prices are in milliunits of the storefront currency, so only
+     * an all-USD history can be bucketed honestly.
+     */
+    private getLifetimeDollarsBucket(
+        transactions: TransactionRecord[]
+    ): LifetimeDollarsPurchased {
+        const priced = transactions.filter((record) => record.price);
+        if (priced.some((record) => record.currency !== "USD")) {
+            return LifetimeDollarsPurchased.UNDECLARED;
+        }
+
+        const dollars =
+            priced.reduce((sum, record) => sum + (record.price || 0), 0) / 1000;
+        const bucket = DOLLAR_BUCKETS.find(
+            ([maxDollars]) => dollars < maxDollars
+        );
+        return bucket
+            ? bucket[1]
+            : LifetimeDollarsPurchased.TWO_THOUSAND_DOLLARS_OR_GREATER;
+    }
+}
+
+export const consumptionService = new ConsumptionService();
@@ -1,7 +1,27 @@
 import { createClient, SupabaseClient } from "@supabase/supabase-js";
 import { config } from "@/utils/config";
 import logger from "@/utils/logger";
-import { SubscriptionRecord, UserProfile } from "@/types";
+import {
+    AdminAuditLogRecord,
+    ApiKeyRecord,
+    ENTITLEMENTS,
+    Entitlement,
+    EntitlementGrantRecord,
+    OfferRedemptionRecord,
+    ProductRecord,
+    NotificationEventRecord,
+    NotificationEventStatus,
+    RefundStatus,
+    RenewalExtensionRequestRecord,
+    SubscriptionRecord,
+    SubscriptionStatus,
+    TransactionRecord,
+    UserProfile,
+} from "@/types";
+import {
+    getEffectiveStatus,
+    statusGrantsAccess,
+} from "@/utils/subscription-state";
 
 class DatabaseService {
     private supabase: SupabaseClient;
@@ -52,115 +72,224 @@ class DatabaseService {
         }
     }
 
-    async getUserProfile(userId: string): Promise<UserProfile | null> {
+    async insertTransactionRecord(
+        transaction: Omit<TransactionRecord, "id" | "created_at" | "updated_at">
+    ): Promise<TransactionRecord | null> {
         try {
-            console.log("Getting user profile for user:", userId);
+            // Each Apple transaction is stored once; redeliveries refresh the row
             const { data, error } = await this.supabase
-                .from("profiles")
-                .select("*")
-                .eq("user_id", userId)
+                .from("transactions")
+                .upsert(transaction, {
+                    onConflict: "transaction_id",
+                    ignoreDuplicates: false,
+                })
+                .select()
                 .single();
 
             if (error) {
-                logger.error("Error fetching user profile:", error);
+                logger.error("Error inserting transaction record:", error);
                 return null;
             }
 
+            logger.info("Transaction record inserted/updated:", {
+                userId: transaction.user_id,
+                transactionId: transaction.transaction_id,
+                originalTransactionId: transaction.original_transaction_id,
+            });
             return data;
         } catch (error) {
-            logger.error("Database error fetching user profile:", error);
+            logger.error("Database error inserting transaction:", error);
             return null;
         }
     }
 
-    async updateUserSubscriptionStatus(
-        userId: string,
-        subscribed: boolean
+    async updateTransactionRefundStatus(
+        transactionId: string,
+        refundStatus: RefundStatus
     ): Promise<boolean> {
         try {
             const { error } = await this.supabase
-                .from("profiles")
-                .update({
-                    subscribed,
-                    subscribed_updated_time: new Date().toISOString(),
-                })
-                .eq("user_id", userId);
+                .from("transactions")
+                .update({ refund_status: refundStatus })
+                .eq("transaction_id", transactionId);
 
             if (error) {
-                logger.error("Error updating user subscription status:", error);
+                logger.error(
+                    "Error updating transaction refund status:",
+                    error
+                );
                 return false;
             }
 
-            logger.info("User subscription status updated:", {
-                userId,
-                subscribed,
+            logger.info("Transaction refund status updated:", {
+                transactionId,
+                refundStatus,
             });
             return true;
         } catch (error) {
-            logger.error("Database error updating subscription status:", error);
+            logger.error("Database error updating refund status:", error);
             return false;
         }
     }
 
-    async setHasPurchasedSubscriptionBefore(userId: string): Promise<boolean> {
+    /**
+     * Flip a transaction's `granted` flag, only if it isn't already set that
+     * way. Returns true if this call changed it, so concurrent or replayed
+     * grants and refunds adjust credits once.
+     */
+    async setTransactionGranted(
+        transactionId: string,
+        granted: boolean
+    ): Promise<boolean> {
+        try {
+            const { data, error } = await this.supabase
+                .from("transactions")
+                .update({ granted })
+                .eq("transaction_id", transactionId)
+                .eq("granted", !granted)
+                .select("transaction_id");
+
+            if (error) {
+                logger.error("Error updating transaction grant:", error);
+                return false;
+            }
+
+            return (data ?? []).length > 0;
+        } catch (error) {
+            logger.error("Database error updating transaction grant:", error);
+            return false;
+        }
+    }
+
+    async getTransactionRecord(
+        transactionId: string
+    ): Promise<TransactionRecord | null> {
+        try {
+            const { data, error } = await this.supabase
+                .from("transactions")
+                .select("*")
+                .eq("transaction_id", transactionId)
+                .single();
+
+            if (error) {
+                if (error.code === "PGRST116") {
+                    // No rows found
+                    return null;
+                }
+                logger.error("Error fetching transaction record:", error);
+                return null;
+            }
+
+            return data;
+        } catch (error) {
+            logger.error("Database error fetching transaction record:", error);
+            return null;
+        }
+    }
+
+    async insertOfferRedemption(
+        redemption: Omit<OfferRedemptionRecord, "id" | "created_at">
+    ): Promise<boolean> {
         try {
+            // One redemption per transaction; redeliveries are no-ops
             const { error } = await this.supabase
-                .from("profiles")
-                .update({ has_purchased_subscription_before: true })
-                .eq("user_id", userId);
+                .from("offer_redemptions")
+                .upsert(redemption, {
+                    onConflict: "transaction_id",
+                    ignoreDuplicates: true,
+                });
 
             if (error) {
-                logger.error("Error setting purchase history flag:", error);
+                logger.error("Error inserting offer redemption:", error);
                 return false;
             }
 
-            logger.info("Purchase history flag set for user:", { userId });
             return true;
         } catch (error) {
-            logger.error("Database error setting purchase history:", error);
+            logger.error("Database error inserting offer redemption:", error);
             return false;
         }
     }
 
-    async getActiveSubscriptions(
-        userId: string
-    ): Promise<SubscriptionRecord[]> {
+    async getOfferRedemptions(
+        filters: { offerIdentifier?: string; userId?: string },
+        limit = 50
+    ): Promise<OfferRedemptionRecord[]> {
         try {
-            const { data, error } = await this.supabase
-                .from("subscriptions")
+            let query = this.supabase
+                .from("offer_redemptions")
                 .select("*")
-                .eq("user_id", userId)
-                .order("created_at", { ascending: false });
+                .order("redeemed_at", { ascending: false })
+                .limit(limit);
+
+            if (filters.offerIdentifier) {
+                query = query.eq("offer_identifier", filters.offerIdentifier);
+            }
+            if (filters.userId) {
+                query = query.eq("user_id", filters.userId);
+            }
+
+            const { data, error } = await query;
 
             if (error) {
-                logger.error("Error fetching user subscriptions:", error);
+                logger.error("Error fetching offer redemptions:", error);
                 return [];
             }
 
             return data || [];
         } catch (error) {
-            logger.error("Database error fetching subscriptions:", error);
+            logger.error("Database error fetching offer redemptions:", error);
             return [];
         }
     }
 
-    async getSubscriptionByTransactionId(
-        transactionId: string
-    ): Promise<SubscriptionRecord | null> {
+    async insertRenewalExtensionRequest(
+        request: Omit<
+            RenewalExtensionRequestRecord,
+            "id" | "created_at" | "updated_at"
+        >
+    ): Promise<RenewalExtensionRequestRecord | null> {
         try {
             const { data, error } = await this.supabase
-                .from("subscriptions")
+                .from("renewal_extension_requests")
+                .insert(request)
+                .select()
+                .single();
+
+            if (error) {
+                logger.error(
+                    "Error inserting renewal extension request:",
+                    error
+                );
+                return null;
+            }
+
+            return data;
+        } catch (error) {
+            logger.error(
+                "Database error inserting renewal extension request:",
+                error
+            );
+            return null;
+        }
+    }
+
+    async getRenewalExtensionRequest(
+        requestIdentifier: string
+    ): Promise<RenewalExtensionRequestRecord | null> {
+        try {
+            const { data, error } = await this.supabase
+                .from("renewal_extension_requests")
                 .select("*")
-                .eq("transaction_id", transactionId)
+                .eq("request_identifier", requestIdentifier)
                 .single();
 
             if (error) {
                 if (error.code === "PGRST116") {
-                    // No rows found
                     return null;
                 }
                 logger.error(
-                    "Error fetching subscription by transaction ID:",
+                    "Error fetching renewal extension request:",
                     error
                 );
                 return null;
@@ -169,62 +298,1139 @@ class DatabaseService {
             return data;
         } catch (error) {
             logger.error(
-                "Database error fetching subscription by transaction ID:",
+                "Database error fetching renewal extension request:",
                 error
             );
             return null;
         }
     }
 
-    async getUserPremiumStatus(
-        userId: string
-    ): Promise<{ isPremium: boolean; reason: string }> {
+    async updateRenewalExtensionRequest(
+        requestIdentifier: string,
+        fields: Partial<
+            Pick<
+                RenewalExtensionRequestRecord,
+                | "status"
+                | "succeeded_count"
+                | "failed_count"
+                | "effective_date"
+                | "error"
+                | "completed_at"
+            >
+        >
+    ): Promise<boolean> {
         try {
-            const profile = await this.getUserProfile(userId);
-            if (!profile) {
-                return { isPremium: false, reason: "User profile not found" };
+            const { error } = await this.supabase
+                .from("renewal_extension_requests")
+                .update(fields)
+                .eq("request_identifier", requestIdentifier);
+
+            if (error) {
+                logger.error(
+                    "Error updating renewal extension request:",
+                    error
+                );
+                return false;
             }
 
-            if (profile.one_time_unlock) {
-                return { isPremium: true, reason: "One-time unlock" };
+            return true;
+        } catch (error) {
+            logger.error(
+                "Database error updating renewal extension request:",
+                error
+            );
+            return false;
+        }
+    }
+
+    async getTransactionHistory(userId: string): Promise<TransactionRecord[]> {
+        try {
+            const { data, error } = await this.supabase
+                .from("transactions")
+                .select("*")
+                .eq("user_id", userId)
+                .order("purchased_at", { ascending: false });
+
+            if (error) {
+                logger.error("Error fetching transaction history:", error);
+                return [];
             }
 
-            if (profile.subscribed) {
-                return { isPremium: true, reason: "Active subscription" };
+            return data || [];
+        } catch (error) {
+            logger.error("Database error fetching transaction history:", error);
+            return [];
+        }
+    }
+
+    async getUserProfile(userId: string): Promise<UserProfile | null> {
+        try {
+            console.log("Getting user profile for user:", userId);
+            const { data, error } = await this.supabase
+                .from("profiles")
+                .select("*")
+                .eq("user_id", userId)
+                .single();
+
+            if (error) {
+                logger.error("Error fetching user profile:", error);
+                return null;
             }
 
-            return { isPremium: false, reason: "No active premium access" };
+            return data;
         } catch (error) {
-            logger.error("Error checking user premium status:", error);
-            return { isPremium: false, reason: "Database error" };
+            logger.error("Database error fetching user profile:", error);
+            return null;
         }
     }
 
-    async updateSubscriptionExpiredStatus(
-        transactionId: string,
-        expired: boolean
+    async getUserProfileByStripeCustomerId(
+        customerId: string
+    ): Promise<UserProfile | null> {
+        try {
+            const { data, error } = await this.supabase
+                .from("profiles")
+                .select("*")
+                .eq("stripe_customer_id", customerId)
+                .single();
+
+            if (error) {
+                if (error.code !== "PGRST116") {
+                    logger.error(
+                        "Error fetching profile by Stripe customer:",
+                        error
+                    );
+                }
+                return null;
+            }
+
+            return data;
+        } catch (error) {
+            logger.error("Database error fetching profile:", error);
+            return null;
+        }
+    }
+
+    async setStripeCustomerId(
+        userId: string,
+        customerId: string
     ): Promise<boolean> {
         try {
             const { error } = await this.supabase
-                .from("subscriptions")
-                .update({ expired })
-                .eq("transaction_id", transactionId);
+                .from("profiles")
+                .update({ stripe_customer_id: customerId })
+                .eq("user_id", userId);
 
             if (error) {
-                logger.error("Error updating subscription expired status:", error);
+                logger.error("Error setting Stripe customer id:", error);
                 return false;
             }
 
-            logger.info("Subscription expired status updated:", {
-                transactionId,
-                expired,
+            logger.info("Stripe customer id set for user:", {
+                userId,
+                customerId,
             });
             return true;
         } catch (error) {
-            logger.error("Database error updating expired status:", error);
+            logger.error("Database error setting Stripe customer id:", error);
+            return false;
+        }
+    }
+
+    /**
+     * Set profiles.subscribed. Store events only know about store
+     * purchases, so an active premium grant keeps it true regardless.
+     */
+    async updateUserSubscriptionStatus(
+        userId: string,
+        subscribed: boolean
+    ): Promise<boolean> {
+        try {
+            if (
+                !subscribed &&
+                (
+                    await this.getActiveEntitlementGrants(
+                        userId,
+                        ENTITLEMENTS.PREMIUM_SITUATIONS
+                    )
+                ).length > 0
+            ) {
+                logger.info("Keeping subscribed for active grant:", {
+                    userId,
+                });
+                subscribed = true;
+            }
+
+            const { error } = await this.supabase
+                .from("profiles")
+                .update({
+                    subscribed,
+                    subscribed_updated_time: new Date().toISOString(),
+                })
+                .eq("user_id", userId);
+
+            if (error) {
+                logger.error("Error updating user subscription status:", error);
+                return false;
+            }
+
+            logger.info("User subscription status updated:", {
+                userId,
+                subscribed,
+            });
+            return true;
+        } catch (error) {
+            logger.error("Database error updating subscription status:", error);
             return false;
         }
     }
+
+    async setHasPurchasedSubscriptionBefore(userId: string): Promise<boolean> {
+        try {
+            const { error } = await this.supabase
+                .from("profiles")
+                .update({ has_purchased_subscription_before: true })
+                .eq("user_id", userId);
+
+            if (error) {
+                logger.error("Error setting purchase history flag:", error);
+                return false;
+            }
+
+            logger.info("Purchase history flag set for user:", { userId });
+            return true;
+        } catch (error) {
+            logger.error("Database error setting purchase history:", error);
+            return false;
+        }
+    }
+
+    async setOneTimeUnlock(
+        userId: string,
+        unlocked: boolean
+    ): Promise<boolean> {
+        try {
+            const { error } = await this.supabase
+                .from("profiles")
+                .update({ one_time_unlock: unlocked })
+                .eq("user_id", userId);
+
+            if (error) {
+                logger.error("Error updating one-time unlock:", error);
+                return false;
+            }
+
+            logger.info("One-time unlock updated:", { userId, unlocked });
+            return true;
+        } catch (error) {
+            logger.error("Database error updating one-time unlock:", error);
+            return false;
+        }
+    }
+
+    async adjustSituationCredits(
+        userId: string,
+        delta: number
+    ): Promise<boolean> {
+        try {
+            const profile = await this.getUserProfile(userId);
+            if (!profile) {
+                return false;
+            }
+
+            const credits = Math.max(
+                0,
+                (profile.situation_credits || 0) + delta
+            );
+            const { error } = await this.supabase
+                .from("profiles")
+                .update({ situation_credits: credits })
+                .eq("user_id", userId);
+
+            if (error) {
+                logger.error("Error updating situation credits:", error);
+                return false;
+            }
+
+            logger.info("Situation credits updated:", {
+                userId,
+                delta,
+                credits,
+            });
+            return true;
+        } catch (error) {
+            logger.error("Database error updating situation credits:", error);
+            return false;
+        }
+    }
+
+    async recordTTSUsage(userId: string): Promise<boolean> {
+        try {
+            const profile = await this.getUserProfile(userId);
+            if (!profile) {
+                return false;
+            }
+
+            const { error } = await this.supabase
+                .from("profiles")
+                .update({ tts_requests: (profile.tts_requests || 0) + 1 })
+                .eq("user_id", userId);
+
+            if (error) {
+                logger.error("Error recording TTS usage:", error);
+                return false;
+            }
+
+            return true;
+        } catch (error) {
+            logger.error("Database error recording TTS usage:", error);
+            return false;
+        }
+    }
+
+    async getActiveSubscriptions(
+        userId: string
+    ): Promise<SubscriptionRecord[]> {
+        try {
+            const { data, error } = await this.supabase
+                .from("subscriptions")
+                .select("*")
+                .eq("user_id", userId)
+                .order("created_at", { ascending: false });
+
+            if (error) {
+                logger.error("Error fetching user subscriptions:", error);
+                return [];
+            }
+
+            return data || [];
+        } catch (error) {
+            logger.error("Database error fetching subscriptions:", error);
+            return [];
+        }
+    }
+
+    async getSubscriptionByTransactionId(
+        transactionId: string
+    ): Promise<SubscriptionRecord | null> {
+        try {
+            const { data, error } = await this.supabase
+                .from("subscriptions")
+                .select("*")
+                .eq("transaction_id", transactionId)
+                .single();
+
+            if (error) {
+                if (error.code === "PGRST116") {
+                    // No rows found
+                    return null;
+                }
+                logger.error(
+                    "Error fetching subscription by transaction ID:",
+                    error
+                );
+                return null;
+            }
+
+            return data;
+        } catch (error) {
+            logger.error(
+                "Database error fetching subscription by transaction ID:",
+                error
+            );
+            return null;
+        }
+    }
+
+    /**
+     * App Store subscriptions whose status changed since `changedSince`,
+     * plus ones not yet expired whose stored expiry is before `horizon`.
+     * Read a page at a time so none are cut off.
+     */
+    async getSubscriptionsToReconcile(
+        changedSince: string,
+        horizon: string,
+        pageSize = 500
+    ): Promise<SubscriptionRecord[]> {
+        const subscriptions: SubscriptionRecord[] = [];
+
+        try {
+            for (let from = 0; ; from += pageSize) {
+                const { data, error } = await this.supabase
+                    .from("subscriptions")
+                    .select("*")
+                    .or("platform.is.null,platform.eq.app_store")
+                    .or(
+                        `status_updated_at.gte.${changedSince},and(expired.eq.false,expires_at.lte.${horizon})`
+                    )
+                    .order("id", { ascending: true })
+                    .range(from, from + pageSize - 1);
+
+                if (error) {
+                    logger.error(
+                        "Error fetching subscriptions to reconcile:",
+                        error
+                    );
+                    return [];
+                }
+
+                subscriptions.push(...(data || []));
+                if (!data || data.length < pageSize) {
+                    return subscriptions;
+                }
+            }
+        } catch (error) {
+            logger.error("Database error fetching subscriptions:", error);
+            return [];
+        }
+    }
+
+    /**
+     * Active or grace period subscriptions whose stored expiry is before
+     * `cutoff`
+     */
+    async getSubscriptionsPastExpiry(
+        cutoff: string,
+        limit = 500
+    ): Promise<SubscriptionRecord[]> {
+        try {
+            const { data, error } = await this.supabase
+                .from("subscriptions")
+                .select("*")
+                .in("status", ["active", "grace_period"])
+                .lt("expires_at", cutoff)
+                .order("expires_at", { ascending: true })
+                .limit(limit);
+
+            if (error) {
+                logger.error(
+                    "Error fetching subscriptions past expiry:",
+                    error
+                );
+                return [];
+            }
+
+            return data || [];
+        } catch (error) {
+            logger.error("Database error fetching subscriptions:", error);
+            return [];
+        }
+    }
+
+    /**
+     * Newest ledger entry of a subscription
+     */
+    async getLatestTransaction(
+        originalTransactionId: string
+    ): Promise<TransactionRecord | null> {
+        try {
+            const { data, error } = await this.supabase
+                .from("transactions")
+                .select("*")
+                .eq("original_transaction_id", originalTransactionId)
+                .order("purchased_at", { ascending: false })
+                .limit(1)
+                .maybeSingle();
+
+            if (error) {
+                logger.error("Error fetching latest transaction:", error);
+                return null;
+            }
+
+            return data;
+        } catch (error) {
+            logger.error("Database error fetching latest transaction:", error);
+            return null;
+        }
+    }
+
+    async getUserPremiumStatus(
+        userId: string
+    ): Promise<{ isPremium: boolean; reason: string }> {
+        try {
+            const profile = await this.getUserProfile(userId);
+            if (!profile) {
+                return { isPremium: false, reason: "User profile not found" };
+            }
+
+            if (profile.one_time_unlock) {
+                return { isPremium: true, reason: "One-time unlock" };
+            }
+
+            const [subscriptions, grants] = await Promise.all([
+                this.getActiveSubscriptions(userId),
+                this.getActiveEntitlementGrants(
+                    userId,
+                    ENTITLEMENTS.PREMIUM_SITUATIONS
+                ),
+            ]);
+            const statuses = subscriptions.map(getEffectiveStatus);
+
+            if (statuses.includes("active")) {
+                return { isPremium: true, reason: "Active subscription" };
+            }
+            if (statuses.includes("grace_period")) {
+                return { isPremium: true, reason: "Billing grace period" };
+            }
+            if (statuses.includes("billing_retry")) {
+                return { isPremium: true, reason: "Billing retry period" };
+            }
+
+            if (grants.length > 0) {
+                return { isPremium: true, reason: "Complimentary access" };
+            }
+
+            if (subscriptions.length > 0) {
+                return { isPremium: false, reason: "No active premium access" };
+            }
+
+            // No store subscription on record, honor the profile flag
+            if (profile.subscribed) {
+                return { isPremium: true, reason: "Active subscription" };
+            }
+
+            return { isPremium: false, reason: "No active premium access" };
+        } catch (error) {
+            logger.error("Error checking user premium status:", error);
+            return { isPremium: false, reason: "Database error" };
+        }
+    }
+
+    /**
+     * Move a subscription to a new status and record the transition.
+     * The update only applies if the stored status is still the one the
+     * caller validated against, so concurrent notifications can't skip a step.
+     */
+    async updateSubscriptionStatus(
+        subscription: SubscriptionRecord,
+        toStatus: SubscriptionStatus,
+        notificationType: string,
+        subtype?: string
+    ): Promise<boolean> {
+        try {
+            const fromStatus = subscription.status ?? null;
+
+            let query = this.supabase
+                .from("subscriptions")
+                .update({
+                    status: toStatus,
+                    status_updated_at: new Date().toISOString(),
+                    expired: !statusGrantsAccess(toStatus),
+                })
+                .eq("transaction_id", subscription.transaction_id);
+            query =
+                fromStatus === null
+                    ? query.is("status", null)
+                    : query.eq("status", fromStatus);
+
+            const { data, error } = await query.select();
+
+            if (error) {
+                logger.error("Error updating subscription status:", error);
+                return false;
+            }
+
+            if (!data || data.length === 0) {
+                logger.warn("Subscription status changed concurrently:", {
+                    transactionId: subscription.transaction_id,
+                    expectedStatus: fromStatus,
+                    toStatus,
+                });
+                return false;
+            }
+
+            const { error: transitionError } = await this.supabase
+                .from("subscription_status_transitions")
+                .insert({
+                    user_id: subscription.user_id,
+                    transaction_id: subscription.transaction_id,
+                    from_status: fromStatus,
+                    to_status: toStatus,
+                    notification_type: notificationType,
+                    subtype: subtype ?? null,
+                });
+
+            if (transitionError) {
+                logger.error(
+                    "Error recording subscription status transition:",
+                    transitionError
+                );
+            }
+
+            logger.info("Subscription status updated:", {
+                transactionId: subscription.transaction_id,
+                fromStatus,
+                toStatus,
+                notificationType,
+                subtype,
+            });
+            return true;
+        } catch (error) {
+            logger.error("Database error updating subscription status:", error);
+            return false;
+        }
+    }
+
+    /**
+     * Recompute profiles.subscribed from the statuses of the user's
+     * subscriptions (kept true by active comp grants)
+     */
+    async refreshUserSubscriptionStatus(userId: string): Promise<boolean> {
+        const subscriptions = await this.getActiveSubscriptions(userId);
+        const subscribed = subscriptions.some((subscription) =>
+            statusGrantsAccess(getEffectiveStatus(subscription))
+        );
+
+        return this.updateUserSubscriptionStatus(userId, subscribed);
+    }
+
+    async updateSubscriptionFields(
+        transactionId: string,
+        fields: Partial<
+            Omit<SubscriptionRecord, "id" | "transaction_id" | "created_at">
+        >
+    ): Promise<boolean> {
+        try {
+            const { error } = await this.supabase
+                .from("subscriptions")
+                .update(fields)
+                .eq("transaction_id", transactionId);
+
+            if (error) {
+                logger.error("Error updating subscription fields:", error);
+                return false;
+            }
+
+            logger.info("Subscription fields updated:", {
+                transactionId,
+                fields: Object.keys(fields),
+            });
+            return true;
+        } catch (error) {
+            logger.error("Database error updating subscription fields:", error);
+            return false;
+        }
+    }
+
+    async getProducts(): Promise<ProductRecord[] | null> {
+        try {
+            const { data, error } = await this.supabase
+                .from("products")
+                .select("*")
+                .order("sort_order", { ascending: true });
+
+            if (error) {
+                logger.error("Error fetching product catalog:", error);
+                return null;
+            }
+
+            return data || [];
+        } catch (error) {
+            logger.error("Database error fetching product catalog:", error);
+            return null;
+        }
+    }
+
+    async getNotificationEvent(
+        notificationUUID: string
+    ): Promise<NotificationEventRecord | null> {
+        try {
+            const { data, error } = await this.supabase
+                .from("notification_events")
+                .select("*")
+                .eq("notification_uuid", notificationUUID)
+                .single();
+
+            if (error) {
+                if (error.code === "PGRST116") {
+                    // No rows found
+                    return null;
+                }
+                logger.error("Error fetching notification event:", error);
+                return null;
+            }
+
+            return data;
+        } catch (error) {
+            logger.error("Database error fetching notification event:", error);
+            return null;
+        }
+    }
+
+    async getNotificationEvents(
+        status?: NotificationEventStatus,
+        limit = 50
+    ): Promise<NotificationEventRecord[]> {
+        try {
+            let query = this.supabase
+                .from("notification_events")
+                .select("*")
+                .order("created_at", { ascending: false })
+                .limit(limit);
+            if (status) {
+                query = query.eq("status", status);
+            }
+
+            const { data, error } = await query;
+
+            if (error) {
+                logger.error("Error fetching notification events:", error);
+                return [];
+            }
+
+            return data || [];
+        } catch (error) {
+            logger.error("Database error fetching notification events:", error);
+            return [];
+        }
+    }
+
+    async upsertNotificationEvent(
+        event: Omit<NotificationEventRecord, "id" | "created_at" | "updated_at">
+    ): Promise<boolean> {
+        try {
+            const { error } = await this.supabase
+                .from("notification_events")
+                .upsert(event, {
+                    onConflict: "notification_uuid",
+                    ignoreDuplicates: false,
+                });
+
+            if (error) {
+                logger.error("Error storing notification event:", error);
+                return false;
+            }
+
+            return true;
+        } catch (error) {
+            logger.error("Database error storing notification event:", error);
+            return false;
+        }
+    }
+
+    async updateNotificationEventStatus(
+        notificationUUID: string,
+        status: NotificationEventStatus,
+        errorMessage: string | null = null
+    ): Promise<boolean> {
+        try {
+            const { error } = await this.supabase
+                .from("notification_events")
+                .update({
+                    status,
+                    error: errorMessage,
+                    processed_at:
+                        status === "processed"
+                            ? new Date().toISOString()
+                            : null,
+                })
+                .eq("notification_uuid", notificationUUID);
+
+            if (error) {
+                logger.error("Error updating notification event:", error);
+                return false;
+            }
+
+            logger.info("Notification event updated:", {
+                notificationUUID,
+                status,
+            });
+            return true;
+        } catch (error) {
+            logger.error("Database error updating notification event:", error);
+            return false;
+        }
+    }
+
+    async updateSubscriptionExpiredStatus(
+        transactionId: string,
+        expired: boolean
+    ): Promise<boolean> {
+        try {
+            const { error } = await this.supabase
+                .from("subscriptions")
+                .update({ expired })
+                .eq("transaction_id", transactionId);
+
+            if (error) {
+                logger.error("Error updating subscription expired status:", error);
+                return false;
+            }
+
+            logger.info("Subscription expired status updated:", {
+                transactionId,
+                expired,
+            });
+            return true;
+        } catch (error) {
+            logger.error("Database error updating expired status:", error);
+            return false;
+        }
+    }
+
+    async insertApiKey(
+        apiKey: Omit<ApiKeyRecord, "id" | "created_at">
+    ): Promise<ApiKeyRecord | null> {
+        try {
+            const { data, error } = await this.supabase
+                .from("api_keys")
+                .insert(apiKey)
+                .select()
+                .single();
+
+            if (error) {
+                logger.error("Error inserting API key:", error);
+                return null;
+            }
+
+            logger.info("API key created:", {
+                id: data.id,
+                name: apiKey.name,
+                scopes: apiKey.scopes,
+            });
+            return data;
+        } catch (error) {
+            logger.error("Database error inserting API key:", error);
+            return null;
+        }
+    }
+
+    async getApiKey(id: string): Promise<ApiKeyRecord | null> {
+        try {
+            const { data, error } = await this.supabase
+                .from("api_keys")
+                .select("*")
+                .eq("id", id)
+                .single();
+
+            if (error) {
+                if (error.code === "PGRST116") {
+                    return null;
+                }
+                logger.error("Error fetching API key:", error);
+                return null;
+            }
+
+            return data;
+        } catch (error) {
+            logger.error("Database error fetching API key:", error);
+            return null;
+        }
+    }
+
+    /**
+     * Throws on database errors so a failed lookup isn't mistaken for an
+     * unknown key
+     */
+    async getApiKeyByPrefix(keyPrefix: string): Promise<ApiKeyRecord | null> {
+        const { data, error } = await this.supabase
+            .from("api_keys")
+            .select("*")
+            .eq("key_prefix", keyPrefix)
+            .maybeSingle();
+
+        if (error) {
+            throw new Error(`Error fetching API key: ${error.message}`);
+        }
+
+        return data;
+    }
+
+    async getApiKeys(): Promise<ApiKeyRecord[]> {
+        try {
+            const { data, error } = await this.supabase
+                .from("api_keys")
+                .select("*")
+                .order("created_at", { ascending: false });
+
+            if (error) {
+                logger.error("Error fetching API keys:", error);
+                return [];
+            }
+
+            return data || [];
+        } catch (error) {
+            logger.error("Database error fetching API keys:", error);
+            return [];
+        }
+    }
+
+    async updateApiKey(
+        id: string,
+        fields: Partial<
+            Pick<ApiKeyRecord, "expires_at" | "revoked_at" | "last_used_at">
+        >
+    ): Promise<boolean> {
+        try {
+            const { error } = await this.supabase
+                .from("api_keys")
+                .update(fields)
+                .eq("id", id);
+
+            if (error) {
+                logger.error("Error updating API key:", error);
+                return false;
+            }
+
+            return true;
+        } catch (error) {
+            logger.error("Database error updating API key:", error);
+            return false;
+        }
+    }
+
+    async insertAuditLogEntry(
+        entry: Omit<AdminAuditLogRecord, "id" | "created_at">
+    ): Promise<boolean> {
+        try {
+            const { error } = await this.supabase
+                .from("admin_audit_log")
+                .insert(entry);
+
+            if (error) {
+                logger.error("Error inserting audit log entry:", error);
+                return false;
+            }
+
+            return true;
+        } catch (error) {
+            logger.error("Database error inserting audit log entry:", error);
+            return false;
+        }
+    }
+
+    async getAuditLog(
+        targetId?: string,
+        limit = 50
+    ): Promise<AdminAuditLogRecord[]> {
+        try {
+            let query = this.supabase
+                .from("admin_audit_log")
+                .select("*")
+                .order("created_at", { ascending: false })
+                .limit(limit);
+
+            if (targetId) {
+                query = query.eq("target_id", targetId);
+            }
+
+            const { data, error } = await query;
+
+            if (error) {
+                logger.error("Error fetching audit log:", error);
+                return [];
+            }
+
+            return data || [];
+        } catch (error) {
+            logger.error("Database error fetching audit log:", error);
+            return [];
+        }
+    }
+
+    async insertEntitlementGrant(
+        grant: Omit<
+            EntitlementGrantRecord,
+            "id" | "revoked_at" | "revoked_by" | "created_at"
+        >
+    ): Promise<EntitlementGrantRecord | null> {
+        try {
+            const { data, error } = await this.supabase
+                .from("entitlement_grants")
+                .insert(grant)
+                .select()
+                .single();
+
+            if (error) {
+                logger.error("Error inserting entitlement grant:", error);
+                return null;
+            }
+
+            logger.info("Entitlement granted:", {
+                userId: grant.user_id,
+                entitlement: grant.entitlement,
+                expiresAt: grant.expires_at,
+            });
+            return data;
+        } catch (error) {
+            logger.error("Database error inserting entitlement grant:", error);
+            return null;
+        }
+    }
+
+    /**
+     * Every grant the user has had, newest first, including expired and
+     * revoked ones
+     */
+    async getEntitlementGrants(
+        userId: string
+    ): Promise<EntitlementGrantRecord[]> {
+        try {
+            const { data, error } = await this.supabase
+                .from("entitlement_grants")
+                .select("*")
+                .eq("user_id", userId)
+                .order("created_at", { ascending: false });
+
+            if (error) {
+                logger.error("Error fetching entitlement grants:", error);
+                return [];
+            }
+
+            return data || [];
+        } catch (error) {
+            logger.error("Database error fetching entitlement grants:", error);
+            return [];
+        }
+    }
+
+    /**
+     * Grants running now, optionally only those of one entitlement
+     */
+    async getActiveEntitlementGrants(
+        userId: string,
+        entitlement?: Entitlement
+    ): Promise<EntitlementGrantRecord[]> {
+        try {
+            let query = this.supabase
+                .from("entitlement_grants")
+                .select("*")
+                .eq("user_id", userId)
+                .is("revoked_at", null)
+                .lte("starts_at", new Date().toISOString())
+                .gt("expires_at", new Date().toISOString());
+            if (entitlement) {
+                query = query.eq("entitlement", entitlement);
+            }
+
+            const { data, error } = await query;
+
+            if (error) {
+                logger.error(
+                    "Error fetching active entitlement grants:",
+                    error
+                );
+                return [];
+            }
+
+            return data || [];
+        } catch (error) {
+            logger.error(
+                "Database error fetching active entitlement grants:",
+                error
+            );
+            return [];
+        }
+    }
+
+    /**
+     * Unrevoked grants whose start or end has passed without being applied
+     * to the profile yet
+     */
+    async getEntitlementGrantsDue(
+        event: "start" | "end"
+    ): Promise<EntitlementGrantRecord[]> {
+        try {
+            const now = new Date().toISOString();
+            let query = this.supabase
+                .from("entitlement_grants")
+                .select("*")
+                .is("revoked_at", null)
+                .limit(500);
+
+            query =
+                event === "start"
+                    ? query
+                          .is("activated_at", null)
+                          .lte("starts_at", now)
+                          .gt("expires_at", now)
+                    : query.is("ended_at", null).lte("expires_at", now);
+
+            const { data, error } = await query;
+
+            if (error) {
+                logger.error("Error fetching due entitlement grants:", error);
+                return [];
+            }
+
+            return data || [];
+        } catch (error) {
+            logger.error(
+                "Database error fetching due entitlement grants:",
+                error
+            );
+            return [];
+        }
+    }
+
+    /**
+     * Record that a grant's start or end was applied. Returns false if
+     * another instance already did.
+     */
+    async markEntitlementGrant(
+        grantId: string,
+        field: "activated_at" | "ended_at"
+    ): Promise<boolean> {
+        try {
+            const { data, error } = await this.supabase
+                .from("entitlement_grants")
+                .update({ [field]: new Date().toISOString() })
+                .eq("id", grantId)
+                .is(field, null)
+                .select("id");
+
+            if (error) {
+                logger.error("Error marking entitlement grant:", error);
+                return false;
+            }
+
+            return (data || []).length > 0;
+        } catch (error) {
+            logger.error("Database error marking entitlement grant:", error);
+            return false;
+        }
+    }
+
+    /**
+     * Revoke a grant that hasn't been revoked yet. Returns the revoked
+     * grant, or null if there was nothing to revoke.
+     */
+    async revokeEntitlementGrant(
+        grantId: string,
+        userId: string,
+        revokedBy: string
+    ): Promise<EntitlementGrantRecord | null> {
+        try {
+            const { data, error } = await this.supabase
+                .from("entitlement_grants")
+                .update({
+                    revoked_at: new Date().toISOString(),
+                    revoked_by: revokedBy,
+                })
+                .eq("id", grantId)
+                .eq("user_id", userId)
+                .is("revoked_at", null)
+                .select()
+                .maybeSingle();
+
+            if (error) {
+                logger.error("Error revoking entitlement grant:", error);
+                return null;
+            }
+
+            if (data) {
+                logger.info("Entitlement grant revoked:", {
+                    grantId,
+                    userId,
+                    revokedBy,
+                });
+            }
+            return data;
+        } catch (error) {
+            logger.error("Database error revoking entitlement grant:", error);
+            return null;
+        }
+    }
 }
 
 export const databaseService = new DatabaseService();
@@ -1,20 +1,35 @@
 import { config } from "@/utils/config";
 import logger from "@/utils/logger";
+import {
+    EntitlementGrantRecord,
+    Platform,
+    ReconciliationReport,
+} from "@/types";
+import { catalogService } from "./catalog";
 
 const DISCORD_WEBHOOK_URL =
     "https://discord.com/api/webhooks/1422023513006538886/78jeJBazdcV88QngfPGHhiccIqZuoaPGxIMgEu3F81LpIfook3QDjnz_3xk7sx69wNRZ";
 
+const PLATFORM_NAMES: Record<Platform, string> = {
+    app_store: "App Store",
+    google_play: "Google Play",
+    stripe: "Stripe",
+};
+
 const DISCORD_SUPABASE_WEBHOOK_URL =
     "https://discord.com/api/webhooks/1422445444499378327/mshh0Ge2mVLUXa20YTtMSnT_7wTdjzDBXxKSD9HgY_QOd7iMsP2iLV-Xi_byl3KtD4pP";
 
 export interface DiscordNotificationData {
     type: string;
-    userId: string;
+    userId?: string | undefined;
     productId?: string | undefined;
     transactionId?: string | undefined;
     environment?: string | undefined;
     price?: number | undefined;
     currency?: string | undefined;
+    subtype?: string | undefined;
+    details?: string | undefined;
+    platform?: Platform | undefined;
 }
 
 class DiscordService {
@@ -88,6 +103,9 @@ class DiscordService {
                 environment,
                 price,
                 currency,
+                subtype,
+                details,
+                platform,
             } = data;
             const environmentText = environment || config.apple.environment;
             const envEmoji = environmentText === "Production" ? "🟢" : "🟡";
@@ -105,10 +123,14 @@ class DiscordService {
                     color = 0x0099ff; // Blue
                     break;
                 case "EXPIRED":
-                case "DID_FAIL_TO_RENEW":
+                case "GRACE_PERIOD_EXPIRED":
                     title = "❌ Subscription Expired";
                     color = 0xff6600; // Orange
                     break;
+                case "DID_FAIL_TO_RENEW":
+                    title = "⚠️ Renewal Failed (Billing Retry)";
+                    color = 0xffa500; // Amber
+                    break;
                 case "REFUND":
                     title = "💸 Subscription Refunded";
                     color = 0xff0000; // Red
@@ -121,6 +143,50 @@ class DiscordService {
                     title = "🔄 Renewal Preference Changed";
                     color = 0x9932cc; // Purple
                     break;
+                case "OFFER_REDEEMED":
+                    title = "🎁 Offer Redeemed";
+                    color = 0x00cc99; // Teal
+                    break;
+                case "PRICE_INCREASE":
+                    title = "📈 Price Increase";
+                    color = 0xffcc00; // Gold
+                    break;
+                case "REFUND_DECLINED":
+                    title = "🛑 Refund Declined";
+                    color = 0x996633; // Brown
+                    break;
+                case "REFUND_REVERSED":
+                    title = "↩️ Refund Reversed";
+                    color = 0x33cc33; // Light green
+                    break;
+                case "REVOKE":
+                    title = "👪 Family Sharing Revoked";
+                    color = 0xcc3366; // Rose
+                    break;
+                case "RENEWAL_EXTENDED":
+                    title = "📅 Renewal Date Extended";
+                    color = 0x3399ff; // Light blue
+                    break;
+                case "RENEWAL_EXTENSION":
+                    title = "📅 Mass Renewal Extension";
+                    color = 0x3366cc; // Dark blue
+                    break;
+                case "CONSUMPTION_REQUEST":
+                    title = "🧾 Consumption Info Requested";
+                    color = 0xff9966; // Peach
+                    break;
+                case "EXTERNAL_PURCHASE_TOKEN":
+                    title = "🔗 External Purchase Token";
+                    color = 0x666666; // Dark gray
+                    break;
+                case "ONE_TIME_CHARGE":
+                    title = "🛒 One-Time Purchase";
+                    color = 0x00ff99; // Mint
+                    break;
+                case "TEST":
+                    title = "🧪 Test Notification";
+                    color = 0xcccccc; // Light gray
+                    break;
                 default:
                     title = `📱 App Store Event: ${type}`;
                     color = 0x888888; // Gray
@@ -135,19 +201,41 @@ class DiscordService {
                         value: `${envEmoji} ${environmentText}`,
                         inline: true,
                     },
-                    {
-                        name: "User ID",
-                        value: userId,
-                        inline: true,
-                    },
                 ],
                 timestamp: new Date().toISOString(),
             };
 
+            if (platform) {
+                embed.fields.push({
+                    name: "Platform",
+                    value: PLATFORM_NAMES[platform],
+                    inline: true,
+                });
+            }
+
+            if (userId) {
+                embed.fields.push({
+                    name: "User ID",
+                    value: userId,
+                    inline: true,
+                });
+            }
+
+            if (subtype) {
+                embed.fields.push({
+                    name: "Subtype",
+                    value: subtype,
+                    inline: true,
+                });
+            }
+
             if (productId) {
+                const product = await catalogService.getProduct(productId);
                 embed.fields.push({
-                    name: "Product ID",
-                    value: productId,
+                    name: "Product",
+                    value: product
+                        ? `${product.display_name} (${productId})`
+                        : productId,
                     inline: true,
                 });
             }
@@ -178,6 +266,14 @@ class DiscordService {
                 });
             }
 
+            if (details) {
+                embed.fields.push({
+                    name: "Details",
+                    value: details,
+                    inline: false,
+                });
+            }
+
             const payload = {
                 embeds: [embed],
             };
@@ -205,6 +301,129 @@ class DiscordService {
             logger.error("Error sending Discord notification:", error);
         }
     }
+
+    async sendReconciliationReport(
+        report: ReconciliationReport
+    ): Promise<void> {
+        try {
+            // Embed descriptions are capped at 4096 characters
+            const lines = report.corrections.map(
+                (correction) =>
+                    `• \`${correction.userId}\` ${correction.field}: ${correction.from} → ${correction.to}` +
+                    (correction.transactionId
+                        ? ` (${correction.transactionId})`
+                        : "")
+            );
+            let description = "";
+            for (const [index, line] of lines.entries()) {
+                const more = `\n…and ${lines.length - index} more`;
+                if (description.length + line.length + more.length > 4000) {
+                    description += more;
+                    break;
+                }
+                description += `${line}\n`;
+            }
+
+            const embed = {
+                title: report.dryRun
+                    ? "🔍 Reconciliation Dry Run"
+                    : "🔧 Subscription Reconciliation",
+                description: description || "No corrections",
+                color: report.failed > 0 ? 0xff6600 : 0x3399ff, // Orange / light blue
+                fields: [
+                    {
+                        name: "Checked",
+                        value: `${report.checked}`,
+                        inline: true,
+                    },
+                    {
+                        name: report.dryRun ? "Would Correct" : "Corrected",
+                        value: `${report.corrections.length}`,
+                        inline: true,
+                    },
+                    {
+                        name: "Failed",
+                        value: `${report.failed}`,
+                        inline: true,
+                    },
+                ],
+                timestamp: report.finishedAt,
+            };
+
+            const response = await fetch(DISCORD_WEBHOOK_URL, {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                },
+                body: JSON.stringify({ embeds: [embed] }),
+            });
+
+            if (!response.ok) {
+                logger.warn("Failed to send Discord reconciliation report:", {
+                    status: response.status,
+                    statusText: response.statusText,
+                });
+            }
+        } catch (error) {
+            logger.error("Error sending Discord reconciliation report:", error);
+        }
+    }
+
+    async sendGrantExpiredNotification(
+        grant: EntitlementGrantRecord
+    ): Promise<void> {
+        try {
+            const embed = {
+                title: "🎟️ Complimentary Access Ended",
+                color: 0x999999, // Gray
+                fields: [
+                    {
+                        name: "User ID",
+                        value: grant.user_id,
+                        inline: true,
+                    },
+                    {
+                        name: "Entitlement",
+                        value: grant.entitlement,
+                        inline: true,
+                    },
+                    {
+                        name: "Granted By",
+                        value: grant.granted_by,
+                        inline: true,
+                    },
+                    {
+                        name: "Reason",
+                        value: grant.reason,
+                        inline: false,
+                    },
+                    {
+                        name: "Period",
+                        value: `<t:${Math.floor(Date.parse(grant.starts_at) / 1000)}:D> → <t:${Math.floor(Date.parse(grant.expires_at) / 1000)}:D>`,
+                        inline: false,
+                    },
+                ],
+                timestamp: new Date().toISOString(),
+            };
+
+            const response = await fetch(DISCORD_WEBHOOK_URL, {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                },
+                body: JSON.stringify({ embeds: [embed] }),
+            });
+
+            if (!response.ok) {
+                logger.warn("Failed to send Discord grant notification:", {
+                    status: response.status,
+                    statusText: response.statusText,
+                });
+            }
+        } catch (error) {
+            logger.error("Error sending Discord grant notification:", error);
+        }
+    }
 }
 
 export const discordService = new DiscordService();
@@ -0,0 +1,264 @@
+import { Type } from "@apple/app-store-server-library";
+import logger from "@/utils/logger";
+import {
+    ActiveEntitlement,
+    Entitlement,
+    EntitlementGrantRecord,
+    ProductRecord,
+    TransactionRecord,
+} from "@/types";
+import {
+    getEffectiveStatus,
+    statusGrantsAccess,
+} from "@/utils/subscription-state";
+import { catalogService } from "./catalog";
+import { databaseService } from "./database";
+
+class EntitlementService {
+    /**
+     * Named entitlements the user currently has, resolved from their
+     * subscriptions and one-time purchases through the product catalog,
+     * plus any granted by support.
+     * When several sources grant the same entitlement, the longest-lasting
+     * one is reported.
+     */
+    async getActiveEntitlements(userId: string): Promise<ActiveEntitlement[]> {
+        const [profile, subscriptions, transactions, grants] =
+            await Promise.all([
+                databaseService.getUserProfile(userId),
+                databaseService.getActiveSubscriptions(userId),
+                databaseService.getTransactionHistory(userId),
+                databaseService.getActiveEntitlementGrants(userId),
+            ]);
+
+        if (!profile) {
+            return [];
+        }
+
+        const granted: ActiveEntitlement[] = [];
+
+        for (const subscription of subscriptions) {
+            const status = getEffectiveStatus(subscription);
+            if (!statusGrantsAccess(status)) {
+                continue;
+            }
+
+            const product = await catalogService.getProduct(
+                subscription.product_id
+            );
+            if (!product) {
+                logger.warn("Subscription product missing from catalog", {
+                    userId,
+                    productId: subscription.product_id,
+                });
+                continue;
+            }
+
+            // Transactions are newest first
+            const latestTransaction = transactions.find(
+                (transaction) =>
+                    transaction.original_transaction_id ===
+                    subscription.transaction_id
+            );
+
+            for (const entitlement of product.entitlements) {
+                granted.push({
+                    entitlement,
+                    source: "subscription",
+                    productId: product.product_id,
+                    status,
+                    ownershipType: subscription.ownership_type || "PURCHASED",
+                    expiresAt: latestTransaction?.expires_at ?? null,
+                    willRenew: subscription.auto_renew_status !== 0,
+                });
+            }
+        }
+
+        if (profile.one_time_unlock) {
+            for (const productId of await this.getUnlockProductIds(
+                transactions
+            )) {
+                const product = await catalogService.getProduct(productId);
+                for (const entitlement of product?.entitlements || []) {
+                    granted.push({
+                        entitlement,
+                        source: "one_time_purchase",
+                        productId,
+                        expiresAt: null,
+                        willRenew: false,
+                    });
+                }
+            }
+        }
+
+        for (const grant of grants) {
+            granted.push({
+                entitlement: grant.entitlement,
+                source: "grant",
+                grantId: grant.id,
+                expiresAt: grant.expires_at,
+                willRenew: false,
+            });
+        }
+
+        return this.mergeEntitlements(granted);
+    }
+
+    /**
+     * Grant what a one-time product unlocks: the lifetime unlock for
+     * non-consumables, situation credits for consumable packs
+     */
+    async grantOneTimeProduct(
+        userId: string,
+        product: ProductRecord
+    ): Promise<boolean> {
+        if (product.type === "non_consumable") {
+            return databaseService.setOneTimeUnlock(userId, true);
+        }
+
+        if (product.type === "consumable" && product.situation_credits) {
+            return databaseService.adjustSituationCredits(
+                userId,
+                product.situation_credits
+            );
+        }
+
+        return false;
+    }
+
+    async revokeOneTimeProduct(
+        userId: string,
+        product: ProductRecord,
+        transactionId: string | undefined
+    ): Promise<boolean> {
+        if (product.type === "non_consumable") {
+            // Keep the unlock if the user holds another non-consumable,
+            // e.g. their own purchase alongside a family-shared one
+            const otherUnlocks = (
+                await databaseService.getTransactionHistory(userId)
+            ).filter(
+                (record) =>
+                    record.transaction_id !== transactionId &&
+                    record.product_type === Type.NON_CONSUMABLE &&
+                    !record.revocation_date
+            );
+            if (otherUnlocks.length > 0) {
+                return true;
+            }
+            return databaseService.setOneTimeUnlock(userId, false);
+        }
+
+        if (product.type === "consumable" && product.situation_credits) {
+            return databaseService.adjustSituationCredits(
+                userId,
+                -product.situation_credits
+            );
+        }
+
+        return false;
+    }
+
+    /**
+     * Give a user an entitlement for a period, e.g. comp premium for an
+     * instructor or beta tester. A grant that has already started counts
+     * towards profiles.subscribed right away; later ones are picked up by
+     * the expiry worker.
+     */
+    async grantEntitlement(
+        userId: string,
+        entitlement: Entitlement,
+        startsAt: Date,
+        expiresAt: Date,
+        reason: string,
+        grantedBy: string
+    ): Promise<EntitlementGrantRecord | null> {
+        const started = startsAt.getTime() <= Date.now();
+
+        const grant = await databaseService.insertEntitlementGrant({
+            user_id: userId,
+            entitlement,
+            reason,
+            granted_by: grantedBy,
+            starts_at: startsAt.toISOString(),
+            expires_at: expiresAt.toISOString(),
+            activated_at: started ? new Date().toISOString() : null,
+        });
+
+        if (grant && started) {
+            await databaseService.refreshUserSubscriptionStatus(userId);
+        }
+
+        return grant;
+    }
+
+    async revokeGrant(
+        grantId: string,
+        userId: string,
+        revokedBy: string
+    ): Promise<EntitlementGrantRecord | null> {
+        const grant = await databaseService.revokeEntitlementGrant(
+            grantId,
+            userId,
+            revokedBy
+        );
+
+        if (grant) {
+            await databaseService.refreshUserSubscriptionStatus(userId);
+        }
+
+        return grant;
+    }
+
+    /**
+     * Non-consumable products behind the user's one-time unlock. Unlocks
+     * granted before purchases were recorded fall back to every
+     * non-consumable in the catalog.
+     */
+    private async getUnlockProductIds(
+        transactions: TransactionRecord[]
+    ): Promise<string[]> {
+        const products = await catalogService.getProducts();
+        const nonConsumableIds = products
+            .filter((product) => product.type === "non_consumable")
+            .map((product) => product.product_id);
+
+        const purchasedIds = transactions
+            .filter(
+                (transaction) =>
+                    !transaction.revocation_date &&
+                    nonConsumableIds.includes(transaction.product_id)
+            )
+            .map((transaction) => transaction.product_id);
+
+        return purchasedIds.length > 0
+            ? [...new Set(purchasedIds)]
+            : nonConsumableIds;
+    }
+
+    private mergeEntitlements(
+        granted: ActiveEntitlement[]
+    ): ActiveEntitlement[] {
+        const byKey = new Map<string, ActiveEntitlement>();
+
+        for (const entry of granted) {
+            const current = byKey.get(entry.entitlement);
+            if (!current || this.outlasts(entry, current)) {
+                byKey.set(entry.entitlement, entry);
+            }
+        }
+
+        return [...byKey.values()];
+    }
+
+    private outlasts(a: ActiveEntitlement, b: ActiveEntitlement): boolean {
+        if (a.expiresAt === null) {
+            return b.expiresAt !== null;
+        }
+        if (b.expiresAt === null) {
+            return false;
+        }
+        return Date.parse(a.expiresAt) > Date.parse(b.expiresAt);
+    }
+}
+
+export const entitlementService = new EntitlementService();
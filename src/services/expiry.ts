@@ -0,0 +1,239 @@
+import { config } from "@/utils/config";
+import logger from "@/utils/logger";
+import { SubscriptionRecord } from "@/types";
+import { cacheService } from "./cache";
+import { databaseService } from "./database";
+import { discordService } from "./discord";
+
+const LOCK_NAME = "expiry-worker";
+const MINUTE_MS = 60 * 1000;
+
+class ExpiryService {
+    private timer: NodeJS.Timeout | null = null;
+
+    /**
+     * Check for lapsed subscriptions and comp grants that started or ended
+     * on the configured interval. Only one
+     * instance runs each pass, through a Redis lock; without Redis every
+     * instance runs it, which is still safe because status updates only
+     * apply to the status they were read with.
+     */
+    start(): void {
+        const { intervalMinutes } = config.expiry;
+        if (intervalMinutes <= 0 || this.timer) {
+            return;
+        }
+
+        if (!cacheService.isAvailable()) {
+            logger.warn("Redis unavailable - expiry worker runs unlocked");
+        }
+
+        this.timer = setInterval(() => {
+            this.runLocked().catch((error) => {
+                logger.error("Expiry worker failed:", error);
+            });
+        }, intervalMinutes * MINUTE_MS);
+        this.timer.unref();
+
+        logger.info("Expiry worker scheduled", { intervalMinutes });
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    private async runLocked(): Promise<void> {
+        if (!cacheService.isAvailable()) {
+            await this.runPass();
+            return;
+        }
+
+        // Held for at most one interval, so a crashed instance can't block
+        // the next pass
+        const token = await cacheService.acquireLock(
+            LOCK_NAME,
+            config.expiry.intervalMinutes * MINUTE_MS
+        );
+        if (!token) {
+            logger.debug("Expiry worker running on another instance");
+            return;
+        }
+
+        try {
+            await this.runPass();
+        } finally {
+            await cacheService.releaseLock(LOCK_NAME, token);
+        }
+    }
+
+    private async runPass(): Promise<void> {
+        await this.expireLapsedSubscriptions();
+        await this.applyGrantSchedule();
+    }
+
+    /**
+     * Expire subscriptions whose paid period and grace period ended more
+     * than the buffer ago without a renewal. Billing retry is left to the
+     * store, which keeps retrying the charge. Returns how many were expired.
+     */
+    async expireLapsedSubscriptions(): Promise<number> {
+        const cutoff = Date.now() - config.expiry.bufferMinutes * MINUTE_MS;
+        const subscriptions = await databaseService.getSubscriptionsPastExpiry(
+            new Date(cutoff).toISOString()
+        );
+        let expired = 0;
+
+        for (const subscription of subscriptions) {
+            try {
+                if (await this.expireIfLapsed(subscription, cutoff)) {
+                    expired++;
+                }
+            } catch (error) {
+                logger.error("Error expiring subscription:", {
+                    userId: subscription.user_id,
+                    transactionId: subscription.transaction_id,
+                    error,
+                });
+            }
+        }
+
+        if (subscriptions.length > 0) {
+            logger.info("Expiry worker finished", {
+                checked: subscriptions.length,
+                expired,
+            });
+        }
+
+        return expired;
+    }
+
+    /**
+     * Update profiles.subscribed for grants that started or ended since the
+     * last pass, and announce the ended ones
+     */
+    async applyGrantSchedule(): Promise<void> {
+        const [starting, ending] = await Promise.all([
+            databaseService.getEntitlementGrantsDue("start"),
+            databaseService.getEntitlementGrantsDue("end"),
+        ]);
+
+        for (const grant of starting) {
+            try {
+                if (
+                    await databaseService.markEntitlementGrant(
+                        grant.id,
+                        "activated_at"
+                    )
+                ) {
+                    await databaseService.refreshUserSubscriptionStatus(
+                        grant.user_id
+                    );
+                }
+            } catch (error) {
+                logger.error("Error starting entitlement grant:", {
+                    grantId: grant.id,
+                    error,
+                });
+            }
+        }
+
+        for (const grant of ending) {
+            try {
+                // Marked first so only one instance sends the notice
+                if (
+                    !(await databaseService.markEntitlementGrant(
+                        grant.id,
+                        "ended_at"
+                    ))
+                ) {
+                    continue;
+                }
+
+                await databaseService.refreshUserSubscriptionStatus(
+                    grant.user_id
+                );
+
+                logger.info("Entitlement grant ended:", {
+                    grantId: grant.id,
+                    userId: grant.user_id,
+                    entitlement: grant.entitlement,
+                });
+
+                await discordService.sendGrantExpiredNotification(grant);
+            } catch (error) {
+                logger.error("Error ending entitlement grant:", {
+                    grantId: grant.id,
+                    error,
+                });
+            }
+        }
+    }
+
+    private async expireIfLapsed(
+        subscription: SubscriptionRecord,
+        cutoff: number
+    ): Promise<boolean> {
+        if (
+            subscription.grace_period_expires_at &&
+            Date.parse(subscription.grace_period_expires_at) > cutoff
+        ) {
+            return false;
+        }
+
+        // A renewal that reached the ledger without updating the
+        // subscription row still counts
+        const latest = await databaseService.getLatestTransaction(
+            subscription.transaction_id
+        );
+        if (
+            latest?.expires_at &&
+            !latest.revocation_date &&
+            Date.parse(latest.expires_at) > cutoff
+        ) {
+            await databaseService.updateSubscriptionFields(
+                subscription.transaction_id,
+                { expires_at: latest.expires_at }
+            );
+            return false;
+        }
+
+        // Only applies if the status is still the one we read, so another
+        // instance or a webhook landing meanwhile wins
+        const updated = await databaseService.updateSubscriptionStatus(
+            subscription,
+            "expired",
+            "EXPIRY_WORKER"
+        );
+        if (!updated) {
+            return false;
+        }
+
+        await databaseService.refreshUserSubscriptionStatus(
+            subscription.user_id
+        );
+
+        logger.info("Subscription expired by worker:", {
+            userId: subscription.user_id,
+            transactionId: subscription.transaction_id,
+            expiresAt: subscription.expires_at,
+        });
+
+        // Send Discord notification
+        await discordService.sendAppStoreNotification({
+            type: "EXPIRED",
+            userId: subscription.user_id,
+            productId: subscription.product_id,
+            transactionId: subscription.transaction_id,
+            environment: subscription.environment,
+            subtype: "EXPIRY_WORKER",
+            ...(subscription.platform && { platform: subscription.platform }),
+        });
+
+        return true;
+    }
+}
+
+export const expiryService = new ExpiryService();
@@ -0,0 +1,629 @@
+import assert from "assert/strict";
+import { createVerify, generateKeyPairSync } from "crypto";
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import {
+    after,
+    afterEach,
+    before,
+    beforeEach,
+    describe,
+    it,
+    mock,
+} from "node:test";
+import type {
+    GoogleDeveloperNotification,
+    ProductRecord,
+    SubscriptionRecord,
+    TransactionRecord,
+} from "@/types";
+
+const PACKAGE_NAME = "com.example.comms";
+const ACCESS_TOKEN = "stub-access-token";
+const USER_ID = "7d3f9a52-0c1e-4b8a-9f6d-2e5c8b1a4d70";
+
+const SUBSCRIPTION_PRODUCT: ProductRecord = {
+    product_id: "premium_monthly",
+    type: "auto_renewable",
+    entitlements: ["premium_situations"],
+    display_name: "Premium Monthly",
+    sort_order: 0,
+    active: true,
+};
+
+const CONSUMABLE_PRODUCT: ProductRecord = {
+    product_id: "situation_pack_10",
+    type: "consumable",
+    entitlements: [],
+    display_name: "10 Situations",
+    situation_credits: 10,
+    sort_order: 1,
+    active: true,
+};
+
+interface StubRequest {
+    method: string;
+    path: string;
+    authorization: string | undefined;
+    body: string;
+}
+
+// Responses of the stub Android Publisher API, by path below the package
+const purchases = new Map<string, object>();
+const requests: StubRequest[] = [];
+
+/**
+ * Local stand-in for the OAuth token endpoint and the Android Publisher
+ * API. GET returns what's in `purchases`, acknowledge and consume succeed.
+ */
+function startGoogleStub(): Promise<Server> {
+    const server = createServer((req, res) => {
+        let body = "";
+        req.on("data", (chunk) => (body += chunk));
+        req.on("end", () => {
+            const path = req.url ?? "";
+            requests.push({
+                method: req.method ?? "",
+                path,
+                authorization: req.headers.authorization,
+                body,
+            });
+
+            if (req.method === "POST" && path === "/token") {
+                res.writeHead(200, { "Content-Type": "application/json" });
+                res.end(
+                    JSON.stringify({
+                        access_token: ACCESS_TOKEN,
+                        expires_in: 3600,
+                    })
+                );
+                return;
+            }
+
+            const prefix = `/androidpublisher/v3/applications/${PACKAGE_NAME}/`;
+            const resource = path.startsWith(prefix)
+                ? path.slice(prefix.length)
+                : "";
+
+            if (
+                req.method === "POST" &&
+                /:(acknowledge|consume)$/.test(resource)
+            ) {
+                res.writeHead(204);
+                res.end();
+                return;
+            }
+
+            const purchase = purchases.get(resource);
+            if (req.method === "GET" && purchase) {
+                res.writeHead(200, { "Content-Type": "application/json" });
+                res.end(JSON.stringify(purchase));
+                return;
+            }
+
+            res.writeHead(404, { "Content-Type": "application/json" });
+            res.end(JSON.stringify({ error: { code: 404 } }));
+        });
+    });
+
+    return new Promise((resolve) =>
+        server.listen(0, "127.0.0.1", () => resolve(server))
+    );
+}
+
+const apiRequests = (suffix: string) =>
+    requests.filter(
+        (request) =>
+            request.path.startsWith("/androidpublisher/") &&
+            request.path.endsWith(suffix)
+    );
+
+const encodeNotification = (
+    notification: Partial<GoogleDeveloperNotification>
+): GoogleDeveloperNotification => ({
+    version: "1.0",
+    packageName: PACKAGE_NAME,
+    eventTimeMillis: String(Date.now()),
+    ...notification,
+});
+
+describe("googlePlayService", () => {
+    let server: Server;
+    let serviceAccountPublicKey: string;
+    let googlePlayService: typeof import("./googleplay").googlePlayService;
+    let databaseService: typeof import("./database").databaseService;
+    let catalogService: typeof import("./catalog").catalogService;
+    let entitlementService: typeof import("./entitlements").entitlementService;
+    let discordService: typeof import("./discord").discordService;
+
+    // In-memory tables behind the stubbed database service
+    let subscriptions: SubscriptionRecord[];
+    let transactions: Map<string, Partial<TransactionRecord>>;
+
+    before(async () => {
+        server = await startGoogleStub();
+        const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        const { privateKey, publicKey } = generateKeyPairSync("rsa", {
+            modulusLength: 2048,
+            privateKeyEncoding: { type: "pkcs8", format: "pem" },
+            publicKeyEncoding: { type: "spki", format: "pem" },
+        });
+        serviceAccountPublicKey = publicKey;
+
+        // Config is read when the services are first imported
+        Object.assign(process.env, {
+            SUPABASE_URL: "http://127.0.0.1:9",
+            SUPABASE_SERVICE_ROLE_KEY: "test",
+            APPLE_ISSUER_ID: "test",
+            APPLE_KEY_ID: "test",
+            APPLE_BUNDLE_ID: PACKAGE_NAME,
+            APPLE_APP_APPLE_ID: "1",
+            APPLE_PRIVATE_KEY: "test",
+            JWT_SECRET: "test",
+            LOG_LEVEL: "error",
+            GOOGLE_PLAY_PACKAGE_NAME: PACKAGE_NAME,
+            GOOGLE_SERVICE_ACCOUNT_EMAIL:
+                "billing@example.iam.gserviceaccount.com",
+            GOOGLE_SERVICE_ACCOUNT_PRIVATE_KEY: privateKey,
+            GOOGLE_PLAY_API_BASE_URL: baseUrl,
+            GOOGLE_OAUTH_TOKEN_URL: `${baseUrl}/token`,
+        });
+
+        // Loaded with require so the tests and the service share the same
+        // module instances, and the mocks below reach the service
+        ({ googlePlayService } = require("./googleplay"));
+        ({ databaseService } = require("./database"));
+        ({ catalogService } = require("./catalog"));
+        ({ entitlementService } = require("./entitlements"));
+        ({ discordService } = require("./discord"));
+    });
+
+    after(() => {
+        server.close();
+    });
+
+    beforeEach(() => {
+        subscriptions = [];
+        transactions = new Map();
+
+        mock.method(
+            catalogService,
+            "getProduct",
+            async (productId: string) =>
+                [SUBSCRIPTION_PRODUCT, CONSUMABLE_PRODUCT].find(
+                    (product) => product.product_id === productId
+                ) ?? null
+        );
+        mock.method(
+            databaseService,
+            "getUserProfile",
+            async (userId: string) =>
+                userId === USER_ID ? { id: userId } : null
+        );
+        mock.method(
+            databaseService,
+            "getTransactionRecord",
+            async (transactionId: string) =>
+                transactions.get(transactionId) ?? null
+        );
+        mock.method(
+            databaseService,
+            "insertTransactionRecord",
+            async (transaction: TransactionRecord) => {
+                transactions.set(transaction.transaction_id, transaction);
+                return transaction;
+            }
+        );
+        mock.method(
+            databaseService,
+            "updateTransactionRefundStatus",
+            async (transactionId: string, refundStatus: string) => {
+                transactions.set(transactionId, {
+                    ...transactions.get(transactionId),
+                    refund_status: refundStatus,
+                } as Partial<TransactionRecord>);
+                return true;
+            }
+        );
+        mock.method(
+            databaseService,
+            "getSubscriptionByTransactionId",
+            async (transactionId: string) =>
+                subscriptions.find(
+                    (subscription) =>
+                        subscription.transaction_id === transactionId
+                ) ?? null
+        );
+        mock.method(
+            databaseService,
+            "insertSubscriptionRecord",
+            async (subscription: SubscriptionRecord) => {
+                subscriptions.push({ ...subscription });
+                return subscriptions[subscriptions.length - 1];
+            }
+        );
+        mock.method(
+            databaseService,
+            "updateSubscriptionFields",
+            async (
+                transactionId: string,
+                fields: Partial<SubscriptionRecord>
+            ) => {
+                const subscription = subscriptions.find(
+                    (row) => row.transaction_id === transactionId
+                );
+                Object.assign(subscription ?? {}, fields);
+                return !!subscription;
+            }
+        );
+        mock.method(
+            databaseService,
+            "updateSubscriptionStatus",
+            async (subscription: SubscriptionRecord, status: string) => {
+                subscription.status = status as SubscriptionRecord["status"];
+                return true;
+            }
+        );
+        mock.method(
+            databaseService,
+            "refreshUserSubscriptionStatus",
+            async () => true
+        );
+        mock.method(
+            databaseService,
+            "setHasPurchasedSubscriptionBefore",
+            async () => true
+        );
+        mock.method(
+            entitlementService,
+            "grantOneTimeProduct",
+            async () => true
+        );
+        mock.method(
+            entitlementService,
+            "revokeOneTimeProduct",
+            async () => true
+        );
+        mock.method(discordService, "sendAppStoreNotification", async () => {});
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+        purchases.clear();
+        requests.length = 0;
+    });
+
+    describe("validatePurchase", () => {
+        it("stores and acknowledges an active subscription", async () => {
+            const expiryTime = new Date(Date.now() + 86400000).toISOString();
+            purchases.set("purchases/subscriptionsv2/tokens/sub-token", {
+                subscriptionState: "SUBSCRIPTION_STATE_ACTIVE",
+                startTime: new Date().toISOString(),
+                latestOrderId: "GPA.1111-2222-3333-44444",
+                acknowledgementState: "ACKNOWLEDGEMENT_STATE_PENDING",
+                externalAccountIdentifiers: {
+                    obfuscatedExternalAccountId: USER_ID,
+                },
+                lineItems: [
+                    {
+                        productId: "premium_monthly",
+                        expiryTime,
+                        autoRenewingPlan: { autoRenewEnabled: true },
+                    },
+                ],
+            });
+
+            const result = await googlePlayService.validatePurchase({
+                userId: USER_ID,
+                productId: "premium_monthly",
+                purchaseToken: "sub-token",
+                platform: "google_play",
+            });
+
+            assert.deepEqual(result, {
+                success: true,
+                subscriptionActive: true,
+                transactionId: "sub-token",
+                expiresDate: expiryTime,
+            });
+            assert.equal(subscriptions.length, 1);
+            assert.equal(subscriptions[0]?.status, "active");
+            assert.equal(subscriptions[0]?.platform, "google_play");
+            assert.equal(subscriptions[0]?.auto_renew_status, 1);
+            assert.equal(
+                transactions.get("GPA.1111-2222-3333-44444")?.user_id,
+                USER_ID
+            );
+            assert.equal(apiRequests(":acknowledge").length, 1);
+
+            // The access token comes from a JWT signed with the service
+            // account key, and is sent on every API request
+            const tokenRequest = new URLSearchParams(
+                requests.find((request) => request.path === "/token")?.body
+            );
+            const [header, claims, signature] = (
+                tokenRequest.get("assertion") ?? ""
+            ).split(".");
+            assert.equal(
+                tokenRequest.get("grant_type"),
+                "urn:ietf:params:oauth:grant-type:jwt-bearer"
+            );
+            assert.ok(
+                createVerify("RSA-SHA256")
+                    .update(`${header}.${claims}`)
+                    .verify(
+                        serviceAccountPublicKey,
+                        signature ?? "",
+                        "base64url"
+                    )
+            );
+            assert.equal(
+                JSON.parse(Buffer.from(claims ?? "", "base64url").toString())
+                    .iss,
+                "billing@example.iam.gserviceaccount.com"
+            );
+            assert.ok(
+                requests
+                    .filter((request) =>
+                        request.path.startsWith("/androidpublisher/")
+                    )
+                    .every(
+                        (request) =>
+                            request.authorization === `Bearer ${ACCESS_TOKEN}`
+                    )
+            );
+        });
+
+        it("doesn't store a pending subscription", async () => {
+            purchases.set("purchases/subscriptionsv2/tokens/sub-token", {
+                subscriptionState: "SUBSCRIPTION_STATE_PENDING",
+                externalAccountIdentifiers: {
+                    obfuscatedExternalAccountId: USER_ID,
+                },
+                lineItems: [{ productId: "premium_monthly" }],
+            });
+
+            const result = await googlePlayService.validatePurchase({
+                userId: USER_ID,
+                productId: "premium_monthly",
+                purchaseToken: "sub-token",
+            });
+
+            assert.deepEqual(result, {
+                success: false,
+                subscriptionActive: false,
+                error: "Purchase is pending",
+            });
+            assert.equal(subscriptions.length, 0);
+            assert.equal(apiRequests(":acknowledge").length, 0);
+        });
+
+        it("rejects a purchase made by another account", async () => {
+            purchases.set("purchases/subscriptionsv2/tokens/sub-token", {
+                subscriptionState: "SUBSCRIPTION_STATE_ACTIVE",
+                externalAccountIdentifiers: {
+                    obfuscatedExternalAccountId: "someone-else",
+                },
+                lineItems: [{ productId: "premium_monthly" }],
+            });
+
+            const result = await googlePlayService.validatePurchase({
+                userId: USER_ID,
+                productId: "premium_monthly",
+                purchaseToken: "sub-token",
+            });
+
+            assert.equal(result.success, false);
+            assert.equal(
+                result.error,
+                "Transaction does not belong to this user"
+            );
+            assert.equal(subscriptions.length, 0);
+            assert.equal(transactions.size, 0);
+        });
+
+        it("grants and consumes a consumable", async () => {
+            purchases.set(
+                "purchases/products/situation_pack_10/tokens/pack-token",
+                {
+                    orderId: "GPA.5555-6666-7777-88888",
+                    purchaseTimeMillis: String(Date.now()),
+                    purchaseState: 0,
+                    consumptionState: 0,
+                    acknowledgementState: 0,
+                    obfuscatedExternalAccountId: USER_ID,
+                }
+            );
+
+            const result = await googlePlayService.validatePurchase({
+                userId: USER_ID,
+                productId: "situation_pack_10",
+                purchaseToken: "pack-token",
+            });
+
+            assert.deepEqual(result, {
+                success: true,
+                subscriptionActive: false,
+                productType: "Consumable",
+                entitlementGranted: true,
+                transactionId: "GPA.5555-6666-7777-88888",
+            });
+            assert.equal(
+                (
+                    entitlementService.grantOneTimeProduct as unknown as {
+                        mock: { callCount(): number };
+                    }
+                ).mock.callCount(),
+                1
+            );
+            assert.equal(apiRequests(":consume").length, 1);
+            assert.equal(apiRequests(":acknowledge").length, 0);
+        });
+
+        it("reports Android Publisher API errors", async () => {
+            const result = await googlePlayService.validatePurchase({
+                userId: USER_ID,
+                productId: "premium_monthly",
+                purchaseToken: "unknown-token",
+            });
+
+            assert.deepEqual(result, {
+                success: false,
+                subscriptionActive: false,
+                error: "Error validating purchase",
+            });
+        });
+    });
+
+    describe("handleDeveloperNotification", () => {
+        it("ignores notifications for another package", async () => {
+            const result = await googlePlayService.handleDeveloperNotification(
+                encodeNotification({ packageName: "com.example.other" })
+            );
+
+            assert.equal(result, "ignored");
+            assert.equal(requests.length, 0);
+        });
+
+        it("applies Google's current state to a stored subscription", async () => {
+            subscriptions.push({
+                user_id: USER_ID,
+                product_id: "premium_monthly",
+                transaction_id: "sub-token",
+                environment: "Production",
+                purchased_at: new Date().toISOString(),
+                status: "active",
+                platform: "google_play",
+            });
+            purchases.set("purchases/subscriptionsv2/tokens/sub-token", {
+                subscriptionState: "SUBSCRIPTION_STATE_IN_GRACE_PERIOD",
+                latestOrderId: "GPA.1111-2222-3333-44444..0",
+                acknowledgementState: "ACKNOWLEDGEMENT_STATE_ACKNOWLEDGED",
+                lineItems: [
+                    {
+                        productId: "premium_monthly",
+                        expiryTime: new Date(
+                            Date.now() + 3600000
+                        ).toISOString(),
+                        autoRenewingPlan: { autoRenewEnabled: true },
+                    },
+                ],
+            });
+
+            const result = await googlePlayService.handleDeveloperNotification(
+                encodeNotification({
+                    subscriptionNotification: {
+                        version: "1.0",
+                        notificationType: 6,
+                        purchaseToken: "sub-token",
+                    },
+                })
+            );
+
+            assert.equal(result, "processed");
+            assert.equal(subscriptions[0]?.status, "grace_period");
+            assert.equal(apiRequests(":acknowledge").length, 0);
+            const sendNotification =
+                discordService.sendAppStoreNotification as unknown as {
+                    mock: { calls: { arguments: unknown[] }[] };
+                };
+            assert.deepEqual(sendNotification.mock.calls[0]?.arguments[0], {
+                type: "DID_FAIL_TO_RENEW",
+                userId: USER_ID,
+                productId: "premium_monthly",
+                transactionId: "GPA.1111-2222-3333-44444..0",
+                environment: "Production",
+                subtype: "SUBSCRIPTION_IN_GRACE_PERIOD",
+                platform: "google_play",
+            });
+        });
+
+        it("throws for a subscription it can't match to a user", async () => {
+            purchases.set("purchases/subscriptionsv2/tokens/sub-token", {
+                subscriptionState: "SUBSCRIPTION_STATE_ACTIVE",
+                latestOrderId: "GPA.9999",
+                externalAccountIdentifiers: {
+                    obfuscatedExternalAccountId: "unknown-user",
+                },
+                lineItems: [{ productId: "premium_monthly" }],
+            });
+
+            await assert.rejects(
+                googlePlayService.handleDeveloperNotification(
+                    encodeNotification({
+                        subscriptionNotification: {
+                            version: "1.0",
+                            notificationType: 4,
+                            purchaseToken: "sub-token",
+                        },
+                    })
+                ),
+                /No user found for Google purchase: GPA.9999/
+            );
+        });
+
+        it("ignores a one-time purchase the app already validated", async () => {
+            transactions.set("GPA.5555-6666-7777-88888", {
+                transaction_id: "GPA.5555-6666-7777-88888",
+                user_id: USER_ID,
+            });
+            purchases.set(
+                "purchases/products/situation_pack_10/tokens/pack-token",
+                {
+                    orderId: "GPA.5555-6666-7777-88888",
+                    purchaseState: 0,
+                    obfuscatedExternalAccountId: USER_ID,
+                }
+            );
+
+            const result = await googlePlayService.handleDeveloperNotification(
+                encodeNotification({
+                    oneTimeProductNotification: {
+                        version: "1.0",
+                        notificationType: 1,
+                        purchaseToken: "pack-token",
+                        sku: "situation_pack_10",
+                    },
+                })
+            );
+
+            assert.equal(result, "ignored");
+            assert.equal(apiRequests(":consume").length, 0);
+        });
+
+        it("revokes a voided subscription", async () => {
+            subscriptions.push({
+                user_id: USER_ID,
+                product_id: "premium_monthly",
+                transaction_id: "sub-token",
+                environment: "Production",
+                purchased_at: new Date().toISOString(),
+                status: "active",
+                platform: "google_play",
+            });
+            transactions.set("GPA.1111-2222-3333-44444", {
+                transaction_id: "GPA.1111-2222-3333-44444",
+                user_id: USER_ID,
+                product_id: "premium_monthly",
+            });
+
+            const result = await googlePlayService.handleDeveloperNotification(
+                encodeNotification({
+                    voidedPurchaseNotification: {
+                        purchaseToken: "sub-token",
+                        orderId: "GPA.1111-2222-3333-44444",
+                        productType: 1,
+                        refundType: 1,
+                    },
+                })
+            );
+
+            assert.equal(result, "processed");
+            assert.equal(subscriptions[0]?.status, "revoked");
+            assert.equal(
+                transactions.get("GPA.1111-2222-3333-44444")?.refund_status,
+                "refunded"
+            );
+        });
+    });
+});
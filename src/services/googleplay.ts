@@ -0,0 +1,807 @@
+import { createSign } from "crypto";
+import { Type } from "@apple/app-store-server-library";
+import { config } from "@/utils/config";
+import logger from "@/utils/logger";
+import {
+    AppleEnvironment,
+    GoogleDeveloperNotification,
+    GoogleProductPurchase,
+    GoogleSubscriptionPurchase,
+    ProductRecord,
+    SubscriptionRecord,
+    SubscriptionStatus,
+    ValidationRequest,
+    ValidationResponse,
+} from "@/types";
+import {
+    fromGoogleSubscriptionState,
+    isTransitionAllowed,
+    statusGrantsAccess,
+} from "@/utils/subscription-state";
+import { catalogService } from "./catalog";
+import { databaseService } from "./database";
+import { discordService } from "./discord";
+import { entitlementService } from "./entitlements";
+
+const ANDROID_PUBLISHER_SCOPE =
+    "https://www.googleapis.com/auth/androidpublisher";
+
+// Real-time developer notification types for subscriptions
+const SUBSCRIPTION_NOTIFICATION_TYPES: Record<number, string> = {
+    1: "SUBSCRIPTION_RECOVERED",
+    2: "SUBSCRIPTION_RENEWED",
+    3: "SUBSCRIPTION_CANCELED",
+    4: "SUBSCRIPTION_PURCHASED",
+    5: "SUBSCRIPTION_ON_HOLD",
+    6: "SUBSCRIPTION_IN_GRACE_PERIOD",
+    7: "SUBSCRIPTION_RESTARTED",
+    8: "SUBSCRIPTION_PRICE_CHANGE_CONFIRMED",
+    9: "SUBSCRIPTION_DEFERRED",
+    10: "SUBSCRIPTION_PAUSED",
+    11: "SUBSCRIPTION_PAUSE_SCHEDULE_CHANGED",
+    12: "SUBSCRIPTION_REVOKED",
+    13: "SUBSCRIPTION_EXPIRED",
+    19: "SUBSCRIPTION_PRICE_CHANGE_UPDATED",
+    20: "SUBSCRIPTION_PENDING_PURCHASE_CANCELED",
+};
+
+// Reuse the App Store embed titles for the equivalent Google events
+const DISCORD_TYPES: Record<string, string> = {
+    SUBSCRIPTION_PURCHASED: "SUBSCRIBED",
+    SUBSCRIPTION_RENEWED: "DID_RENEW",
+    SUBSCRIPTION_RECOVERED: "DID_RENEW",
+    SUBSCRIPTION_RESTARTED: "DID_CHANGE_RENEWAL_STATUS",
+    SUBSCRIPTION_CANCELED: "DID_CHANGE_RENEWAL_STATUS",
+    SUBSCRIPTION_IN_GRACE_PERIOD: "DID_FAIL_TO_RENEW",
+    SUBSCRIPTION_ON_HOLD: "DID_FAIL_TO_RENEW",
+    SUBSCRIPTION_EXPIRED: "EXPIRED",
+    SUBSCRIPTION_REVOKED: "REFUND",
+};
+
+const SUBSCRIPTION_REVOKED = 12;
+const SUBSCRIPTION_PENDING_PURCHASE_CANCELED = 20;
+const ONE_TIME_PRODUCT_PURCHASED = 1;
+const VOIDED_SUBSCRIPTION = 1;
+
+class GooglePlayService {
+    private accessToken: { token: string; expiresAt: number } | null = null;
+
+    isConfigured(): boolean {
+        return !!(
+            config.google.packageName &&
+            config.google.serviceAccountEmail &&
+            config.google.serviceAccountPrivateKey
+        );
+    }
+
+    /**
+     * Verify a Play Billing purchase token with the Android Publisher API
+     * and store it like an App Store purchase
+     */
+    async validatePurchase(
+        request: ValidationRequest
+    ): Promise<ValidationResponse> {
+        try {
+            if (!this.isConfigured()) {
+                return {
+                    success: false,
+                    subscriptionActive: false,
+                    error: "Google Play is not configured",
+                };
+            }
+
+            logger.info("Validating Google Play purchase for user:", {
+                userId: request.userId,
+                productId: request.productId,
+            });
+
+            // The validation schema guarantees the product is in the catalog
+            const product = await catalogService.getProduct(request.productId);
+            if (!product) {
+                return {
+                    success: false,
+                    subscriptionActive: false,
+                    error: "Unknown product",
+                };
+            }
+
+            if (product.type === "auto_renewable") {
+                return await this.validateSubscription(request);
+            }
+            return await this.validateOneTimePurchase(request, product);
+        } catch (error) {
+            logger.error("Error validating Google Play purchase:", error);
+            return {
+                success: false,
+                subscriptionActive: false,
+                error: "Error validating purchase",
+            };
+        }
+    }
+
+    private async validateSubscription(
+        request: ValidationRequest
+    ): Promise<ValidationResponse> {
+        const purchase = await this.getSubscriptionPurchase(
+            request.purchaseToken
+        );
+
+        // The app sets the user id as obfuscatedAccountId at purchase time
+        const accountId =
+            purchase.externalAccountIdentifiers?.obfuscatedExternalAccountId;
+        if (accountId !== request.userId) {
+            logger.warn("Google Play purchase ownership mismatch", {
+                requestUserId: request.userId,
+                obfuscatedExternalAccountId: accountId,
+                orderId: purchase.latestOrderId,
+            });
+            return {
+                success: false,
+                subscriptionActive: false,
+                error: "Transaction does not belong to this user",
+            };
+        }
+
+        const result = await this.applySubscriptionPurchase(
+            request.userId,
+            request.purchaseToken,
+            purchase,
+            "VALIDATE_RECEIPT",
+            Date.now()
+        );
+
+        if (!result) {
+            return {
+                success: false,
+                subscriptionActive: false,
+                error: "Purchase is pending",
+            };
+        }
+
+        await databaseService.setHasPurchasedSubscriptionBefore(request.userId);
+
+        return {
+            success: true,
+            subscriptionActive: statusGrantsAccess(result.status),
+            transactionId: request.purchaseToken,
+            expiresDate: result.expiresDate,
+        };
+    }
+
+    private async validateOneTimePurchase(
+        request: ValidationRequest,
+        product: ProductRecord
+    ): Promise<ValidationResponse> {
+        const purchase = await this.getProductPurchase(
+            product.product_id,
+            request.purchaseToken
+        );
+
+        if (purchase.obfuscatedExternalAccountId !== request.userId) {
+            logger.warn("Google Play purchase ownership mismatch", {
+                requestUserId: request.userId,
+                obfuscatedExternalAccountId:
+                    purchase.obfuscatedExternalAccountId,
+                orderId: purchase.orderId,
+            });
+            return {
+                success: false,
+                subscriptionActive: false,
+                error: "Transaction does not belong to this user",
+            };
+        }
+
+        // 0 purchased, 1 canceled, 2 pending
+        if (purchase.purchaseState !== 0) {
+            return {
+                success: false,
+                subscriptionActive: false,
+                error: "Purchase is not complete",
+            };
+        }
+
+        const entitlementGranted = await this.applyProductPurchase(
+            request.userId,
+            product,
+            request.purchaseToken,
+            purchase
+        );
+
+        return {
+            success: true,
+            subscriptionActive: false,
+            productType: this.getLedgerProductType(product),
+            entitlementGranted,
+            transactionId: purchase.orderId || request.purchaseToken,
+        };
+    }
+
+    /**
+     * Apply a Real-time Developer Notification. Returns "ignored" for
+     * events that change nothing; throws when it can't be processed so
+     * Pub/Sub redelivers it.
+     */
+    async handleDeveloperNotification(
+        notification: GoogleDeveloperNotification
+    ): Promise<"processed" | "ignored"> {
+        if (notification.packageName !== config.google.packageName) {
+            logger.warn("Google notification for another package ignored:", {
+                packageName: notification.packageName,
+            });
+            return "ignored";
+        }
+
+        if (notification.testNotification) {
+            logger.info("Google Play test notification received");
+            await discordService.sendAppStoreNotification({
+                type: "TEST",
+                platform: "google_play",
+            });
+            return "processed";
+        }
+
+        if (notification.subscriptionNotification) {
+            return this.processSubscriptionNotification(notification);
+        }
+
+        if (notification.oneTimeProductNotification) {
+            return this.processOneTimeProductNotification(notification);
+        }
+
+        if (notification.voidedPurchaseNotification) {
+            return this.processVoidedPurchaseNotification(notification);
+        }
+
+        logger.info("Unhandled Google notification:", notification);
+        return "ignored";
+    }
+
+    private async processSubscriptionNotification(
+        notification: GoogleDeveloperNotification
+    ): Promise<"processed" | "ignored"> {
+        const { notificationType, purchaseToken } =
+            notification.subscriptionNotification!;
+        const type =
+            SUBSCRIPTION_NOTIFICATION_TYPES[notificationType] ||
+            `SUBSCRIPTION_${notificationType}`;
+
+        logger.info("Processing Google subscription notification:", {
+            type,
+            eventTimeMillis: notification.eventTimeMillis,
+        });
+
+        if (notificationType === SUBSCRIPTION_PENDING_PURCHASE_CANCELED) {
+            return "ignored";
+        }
+
+        // Always apply the current state from Google, so redeliveries and
+        // out-of-order notifications converge on the same result
+        const purchase = await this.getSubscriptionPurchase(purchaseToken);
+        const userId = await this.findSubscriptionUser(purchaseToken, purchase);
+
+        if (!userId) {
+            throw new Error(
+                `No user found for Google purchase: ${purchase.latestOrderId}`
+            );
+        }
+
+        const result = await this.applySubscriptionPurchase(
+            userId,
+            purchaseToken,
+            purchase,
+            type,
+            parseInt(notification.eventTimeMillis, 10) || Date.now(),
+            notificationType === SUBSCRIPTION_REVOKED ? "revoked" : undefined
+        );
+
+        if (!result) {
+            return "ignored";
+        }
+
+        // Send Discord notification
+        await discordService.sendAppStoreNotification({
+            type: DISCORD_TYPES[type] || type,
+            userId,
+            productId: result.subscription.product_id,
+            transactionId: purchase.latestOrderId,
+            environment: result.subscription.environment,
+            subtype: type,
+            platform: "google_play",
+        });
+
+        return "processed";
+    }
+
+    private async processOneTimeProductNotification(
+        notification: GoogleDeveloperNotification
+    ): Promise<"processed" | "ignored"> {
+        const { notificationType, purchaseToken, sku } =
+            notification.oneTimeProductNotification!;
+
+        // Pending purchases that were canceled never granted anything
+        if (notificationType !== ONE_TIME_PRODUCT_PURCHASED) {
+            return "ignored";
+        }
+
+        const product = await catalogService.getProduct(sku);
+        if (!product) {
+            throw new Error(`Unknown Google Play product: ${sku}`);
+        }
+
+        const purchase = await this.getProductPurchase(sku, purchaseToken);
+        const userId = purchase.obfuscatedExternalAccountId;
+
+        // Already granted when the app validated the purchase
+        if (
+            purchase.orderId &&
+            (await databaseService.getTransactionRecord(purchase.orderId))
+        ) {
+            return "ignored";
+        }
+
+        if (!userId || !(await databaseService.getUserProfile(userId))) {
+            throw new Error(
+                `No user found for Google purchase: ${purchase.orderId}`
+            );
+        }
+
+        await this.applyProductPurchase(
+            userId,
+            product,
+            purchaseToken,
+            purchase
+        );
+
+        // Send Discord notification
+        await discordService.sendAppStoreNotification({
+            type: "ONE_TIME_CHARGE",
+            userId,
+            productId: sku,
+            transactionId: purchase.orderId,
+            environment: this.getProductEnvironment(purchase),
+            platform: "google_play",
+        });
+
+        return "processed";
+    }
+
+    /**
+     * A refund or chargeback. Subscriptions are revoked, one-time products
+     * take back what they granted.
+     */
+    private async processVoidedPurchaseNotification(
+        notification: GoogleDeveloperNotification
+    ): Promise<"processed" | "ignored"> {
+        const { purchaseToken, orderId, productType } =
+            notification.voidedPurchaseNotification!;
+        const record = await databaseService.getTransactionRecord(orderId);
+        let userId = record?.user_id;
+        let productId = record?.product_id;
+
+        if (productType === VOIDED_SUBSCRIPTION) {
+            const subscription =
+                await databaseService.getSubscriptionByTransactionId(
+                    purchaseToken
+                );
+            if (!subscription) {
+                throw new Error(
+                    `No subscription found for voided order: ${orderId}`
+                );
+            }
+
+            userId = subscription.user_id;
+            productId = subscription.product_id;
+            await this.transitionStatus(
+                subscription,
+                "revoked",
+                "VOIDED_PURCHASE"
+            );
+            await databaseService.refreshUserSubscriptionStatus(userId);
+        } else {
+            const product = productId
+                ? await catalogService.getProduct(productId)
+                : null;
+            if (!userId || !product) {
+                throw new Error(
+                    `No purchase found for voided order: ${orderId}`
+                );
+            }
+
+            await entitlementService.revokeOneTimeProduct(
+                userId,
+                product,
+                orderId
+            );
+        }
+
+        if (record) {
+            await databaseService.updateTransactionRefundStatus(
+                orderId,
+                "refunded"
+            );
+        }
+
+        // Send Discord notification
+        await discordService.sendAppStoreNotification({
+            type: "REFUND",
+            userId,
+            productId,
+            transactionId: orderId,
+            environment: record?.environment,
+            subtype: "VOIDED_PURCHASE",
+            platform: "google_play",
+        });
+
+        return "processed";
+    }
+
+    /**
+     * Store a subscription's current Google state: ledger entry for the
+     * latest order, subscription row, status transition and
+     * acknowledgement. Returns null while the purchase is pending.
+     */
+    private async applySubscriptionPurchase(
+        userId: string,
+        purchaseToken: string,
+        purchase: GoogleSubscriptionPurchase,
+        eventType: string,
+        eventTime: number,
+        statusOverride?: SubscriptionStatus
+    ): Promise<{
+        subscription: SubscriptionRecord;
+        status: SubscriptionStatus;
+        expiresDate?: string;
+    } | null> {
+        const lineItem = purchase.lineItems?.[0];
+        const expiresAt = lineItem?.expiryTime
+            ? Date.parse(lineItem.expiryTime)
+            : undefined;
+        const status =
+            statusOverride ?? fromGoogleSubscriptionState(purchase, expiresAt);
+
+        if (!lineItem || !status) {
+            logger.info("Google subscription has no status yet:", {
+                userId,
+                subscriptionState: purchase.subscriptionState,
+            });
+            return null;
+        }
+
+        const environment = this.getSubscriptionEnvironment(purchase);
+        const orderId =
+            lineItem.latestSuccessfulOrderId || purchase.latestOrderId;
+        const expiresDate = expiresAt
+            ? new Date(expiresAt).toISOString()
+            : undefined;
+
+        if (orderId) {
+            // Google doesn't report when each renewal was charged, so the
+            // ledger records when we first saw the order
+            const existingOrder =
+                await databaseService.getTransactionRecord(orderId);
+            await databaseService.insertTransactionRecord({
+                user_id: userId,
+                transaction_id: orderId,
+                original_transaction_id: purchaseToken,
+                product_id: lineItem.productId,
+                environment,
+                purchased_at:
+                    existingOrder?.purchased_at ||
+                    new Date(eventTime).toISOString(),
+                expires_at: expiresDate ?? null,
+                offer_identifier: lineItem.offerDetails?.offerId ?? null,
+                product_type: Type.AUTO_RENEWABLE_SUBSCRIPTION,
+                ownership_type: "PURCHASED",
+                platform: "google_play",
+            });
+        }
+
+        const subscription =
+            (await databaseService.getSubscriptionByTransactionId(
+                purchaseToken
+            )) ||
+            (await databaseService.insertSubscriptionRecord({
+                user_id: userId,
+                product_id: lineItem.productId,
+                transaction_id: purchaseToken,
+                environment,
+                purchased_at: new Date(
+                    purchase.startTime || eventTime
+                ).toISOString(),
+                ownership_type: "PURCHASED",
+                platform: "google_play",
+            }));
+
+        if (!subscription) {
+            throw new Error(
+                `Failed to store Google subscription: ${purchase.latestOrderId}`
+            );
+        }
+
+        await databaseService.updateSubscriptionFields(purchaseToken, {
+            product_id: lineItem.productId,
+            expires_at: expiresDate ?? null,
+            auto_renew_status: lineItem.autoRenewingPlan?.autoRenewEnabled
+                ? 1
+                : 0,
+        });
+
+        // Upgrades, downgrades and resubscribes replace the linked purchase
+        if (purchase.linkedPurchaseToken) {
+            const replaced =
+                await databaseService.getSubscriptionByTransactionId(
+                    purchase.linkedPurchaseToken
+                );
+            if (replaced) {
+                await this.transitionStatus(replaced, "expired", eventType);
+            }
+        }
+
+        await this.transitionStatus(subscription, status, eventType);
+        await databaseService.refreshUserSubscriptionStatus(userId);
+
+        // Unacknowledged purchases are refunded by Google after three days
+        if (
+            purchase.acknowledgementState === "ACKNOWLEDGEMENT_STATE_PENDING" &&
+            statusGrantsAccess(status)
+        ) {
+            await this.request(
+                "POST",
+                `purchases/subscriptions/${encodeURIComponent(
+                    lineItem.productId
+                )}/tokens/${encodeURIComponent(purchaseToken)}:acknowledge`
+            );
+        }
+
+        return {
+            subscription,
+            status,
+            ...(expiresDate && { expiresDate }),
+        };
+    }
+
+    /**
+     * Record a one-time purchase and grant it once. Consumables are
+     * consumed so they can be bought again; anything else is acknowledged.
+     */
+    private async applyProductPurchase(
+        userId: string,
+        product: ProductRecord,
+        purchaseToken: string,
+        purchase: GoogleProductPurchase
+    ): Promise<boolean> {
+        const transactionId = purchase.orderId || purchaseToken;
+        const alreadyRecorded =
+            await databaseService.getTransactionRecord(transactionId);
+
+        await databaseService.insertTransactionRecord({
+            user_id: userId,
+            transaction_id: transactionId,
+            original_transaction_id: purchaseToken,
+            product_id: product.product_id,
+            environment: this.getProductEnvironment(purchase),
+            purchased_at: new Date(
+                parseInt(purchase.purchaseTimeMillis || "", 10) || Date.now()
+            ).toISOString(),
+            product_type: this.getLedgerProductType(product),
+            ownership_type: "PURCHASED",
+            platform: "google_play",
+        });
+
+        const entitlementGranted = alreadyRecorded
+            ? true
+            : await entitlementService.grantOneTimeProduct(userId, product);
+
+        const path = `purchases/products/${encodeURIComponent(
+            product.product_id
+        )}/tokens/${encodeURIComponent(purchaseToken)}`;
+        if (product.type === "consumable" && purchase.consumptionState === 0) {
+            await this.request("POST", `${path}:consume`);
+        } else if (purchase.acknowledgementState === 0) {
+            await this.request("POST", `${path}:acknowledge`);
+        }
+
+        return entitlementGranted;
+    }
+
+    /**
+     * The user behind a subscription notification: the stored subscription,
+     * the purchase it replaced, or the obfuscated account id the app set
+     */
+    private async findSubscriptionUser(
+        purchaseToken: string,
+        purchase: GoogleSubscriptionPurchase
+    ): Promise<string | null> {
+        const existing =
+            (await databaseService.getSubscriptionByTransactionId(
+                purchaseToken
+            )) ||
+            (purchase.linkedPurchaseToken
+                ? await databaseService.getSubscriptionByTransactionId(
+                      purchase.linkedPurchaseToken
+                  )
+                : null);
+        if (existing) {
+            return existing.user_id;
+        }
+
+        const accountId =
+            purchase.externalAccountIdentifiers?.obfuscatedExternalAccountId;
+        if (accountId && (await databaseService.getUserProfile(accountId))) {
+            return accountId;
+        }
+
+        return null;
+    }
+
+    private async transitionStatus(
+        subscription: SubscriptionRecord,
+        toStatus: SubscriptionStatus,
+        eventType: string
+    ): Promise<void> {
+        const fromStatus = subscription.status ?? null;
+
+        if (fromStatus === toStatus) {
+            return;
+        }
+
+        if (!isTransitionAllowed(fromStatus, toStatus)) {
+            logger.warn("Rejected illegal subscription status transition:", {
+                userId: subscription.user_id,
+                transactionId: subscription.transaction_id,
+                fromStatus,
+                toStatus,
+                eventType,
+            });
+            return;
+        }
+
+        const updated = await databaseService.updateSubscriptionStatus(
+            subscription,
+            toStatus,
+            eventType
+        );
+        if (!updated) {
+            throw new Error(
+                `Failed to update Google subscription status to ${toStatus}`
+            );
+        }
+    }
+
+    private getSubscriptionEnvironment(
+        purchase: GoogleSubscriptionPurchase
+    ): AppleEnvironment {
+        return purchase.testPurchase ? "Sandbox" : "Production";
+    }
+
+    private getProductEnvironment(
+        purchase: GoogleProductPurchase
+    ): AppleEnvironment {
+        // purchaseType 0 is a license tester purchase
+        return purchase.purchaseType === 0 ? "Sandbox" : "Production";
+    }
+
+    /**
+     * Ledger product types use Apple's transaction type names on both
+     * platforms so entitlement checks don't care where a purchase came from
+     */
+    private getLedgerProductType(product: ProductRecord): string {
+        switch (product.type) {
+            case "consumable":
+                return Type.CONSUMABLE;
+            case "non_consumable":
+                return Type.NON_CONSUMABLE;
+            case "non_renewing":
+                return Type.NON_RENEWING_SUBSCRIPTION;
+            default:
+                return Type.AUTO_RENEWABLE_SUBSCRIPTION;
+        }
+    }
+
+    private getSubscriptionPurchase(
+        purchaseToken: string
+    ): Promise<GoogleSubscriptionPurchase> {
+        return this.request(
+            "GET",
+            `purchases/subscriptionsv2/tokens/${encodeURIComponent(
+                purchaseToken
+            )}`
+        );
+    }
+
+    private getProductPurchase(
+        productId: string,
+        purchaseToken: string
+    ): Promise<GoogleProductPurchase> {
+        return this.request(
+            "GET",
+            `purchases/products/${encodeURIComponent(
+                productId
+            )}/tokens/${encodeURIComponent(purchaseToken)}`
+        );
+    }
+
+    /**
+     * Call the Android Publisher API for the configured package.
+     * GOOGLE_PLAY_API_BASE_URL can point at a local stub.
+     */
+    private async request<T>(method: "GET" | "POST", path: string): Promise<T> {
+        const url = `${config.google.apiBaseUrl}/androidpublisher/v3/applications/${encodeURIComponent(
+            config.google.packageName
+        )}/${path}`;
+
+        const response = await fetch(url, {
+            method,
+            headers: {
+                Authorization: `Bearer ${await this.getAccessToken()}`,
+                "Content-Type": "application/json",
+            },
+            ...(method === "POST" && { body: "{}" }),
+        });
+
+        if (!response.ok) {
+            throw new Error(
+                `Android Publisher API error ${response.status}: ${await response.text()}`
+            );
+        }
+
+        // Acknowledge and consume return an empty body
+        const text = await response.text();
+        return (text ? JSON.parse(text) : {}) as T;
+    }
+
+    /**
+     * OAuth access token for the service account, from a self-signed JWT
+     * exchanged at the token endpoint. Cached until shortly before expiry.
+     */
+    private async getAccessToken(): Promise<string> {
+        if (this.accessToken && this.accessToken.expiresAt > Date.now()) {
+            return this.accessToken.token;
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        const encode = (value: object) =>
+            Buffer.from(JSON.stringify(value)).toString("base64url");
+        const unsignedToken = `${encode({ alg: "RS256", typ: "JWT" })}.${encode(
+            {
+                iss: config.google.serviceAccountEmail,
+                scope: ANDROID_PUBLISHER_SCOPE,
+                aud: config.google.tokenUrl,
+                iat: now,
+                exp: now + 3600,
+            }
+        )}`;
+        const signature = createSign("RSA-SHA256")
+            .update(unsignedToken)
+            .sign(config.google.serviceAccountPrivateKey, "base64url");
+
+        const response = await fetch(config.google.tokenUrl, {
+            method: "POST",
+            headers: { "Content-Type": "application/x-www-form-urlencoded" },
+            body: new URLSearchParams({
+                grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+                assertion: `${unsignedToken}.${signature}`,
+            }),
+        });
+
+        if (!response.ok) {
+            throw new Error(
+                `Google OAuth token error ${response.status}: ${await response.text()}`
+            );
+        }
+
+        const { access_token, expires_in } = (await response.json()) as {
+            access_token: string;
+            expires_in: number;
+        };
+
+        // Refresh a minute early so in-flight requests don't race expiry
+        this.accessToken = {
+            token: access_token,
+            expiresAt: Date.now() + (expires_in - 60) * 1000,
+        };
+        return access_token;
+    }
+}
+
+export const googlePlayService = new GooglePlayService();
@@ -0,0 +1,354 @@
+import { config } from "@/utils/config";
+import logger from "@/utils/logger";
+import {
+    ENTITLEMENTS,
+    ReconciliationCorrection,
+    ReconciliationReport,
+    SubscriptionRecord,
+    SubscriptionStatus,
+} from "@/types";
+import {
+    getEffectiveStatus,
+    statusGrantsAccess,
+} from "@/utils/subscription-state";
+import { appStoreService } from "./appstore";
+import { cacheService } from "./cache";
+import { databaseService } from "./database";
+import { discordService } from "./discord";
+
+const HOUR_MS = 60 * 60 * 1000;
+const LOCK_NAME = "reconciliation";
+// A run on a crashed instance can't block the others for longer than this
+const LOCK_TTL_MS = HOUR_MS;
+
+class ReconciliationService {
+    private running = false;
+    private timer: NodeJS.Timeout | null = null;
+
+    isRunning(): boolean {
+        return this.running;
+    }
+
+    /**
+     * Run on the configured interval. Webhooks stay the primary source of
+     * truth; this catches the ones Apple never delivered.
+     */
+    start(): void {
+        const { intervalMinutes, dryRun } = config.reconciliation;
+        if (intervalMinutes <= 0 || this.timer) {
+            return;
+        }
+
+        this.timer = setInterval(
+            () => {
+                this.run(dryRun).catch((error) => {
+                    logger.error("Scheduled reconciliation failed:", error);
+                });
+            },
+            intervalMinutes * 60 * 1000
+        );
+        this.timer.unref();
+
+        logger.info("Subscription reconciliation scheduled", {
+            intervalMinutes,
+            dryRun,
+        });
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Compare App Store subscriptions that changed recently or are about to
+     * expire with Apple's status API and fix any drift in their status,
+     * `expired` flag and the owners' `profiles.subscribed`. A dry run only
+     * reports what would change. Returns null if a run is in progress here
+     * or, with Redis, on another instance.
+     */
+    async run(dryRun: boolean): Promise<ReconciliationReport | null> {
+        if (this.running) {
+            logger.warn("Reconciliation already running, skipping");
+            return null;
+        }
+
+        this.running = true;
+        try {
+            return await this.runLocked(dryRun);
+        } finally {
+            this.running = false;
+        }
+    }
+
+    private async runLocked(
+        dryRun: boolean
+    ): Promise<ReconciliationReport | null> {
+        if (!cacheService.isAvailable()) {
+            return this.reconcile(dryRun);
+        }
+
+        const token = await cacheService.acquireLock(LOCK_NAME, LOCK_TTL_MS);
+        if (!token) {
+            logger.warn("Reconciliation running on another instance, skipping");
+            return null;
+        }
+
+        try {
+            return await this.reconcile(dryRun);
+        } finally {
+            await cacheService.releaseLock(LOCK_NAME, token);
+        }
+    }
+
+    private async reconcile(dryRun: boolean): Promise<ReconciliationReport> {
+        const startedAt = new Date();
+        const { lookbackHours, lookaheadHours } = config.reconciliation;
+        const changedSince = new Date(
+            startedAt.getTime() - lookbackHours * HOUR_MS
+        ).toISOString();
+        const horizon = startedAt.getTime() + lookaheadHours * HOUR_MS;
+
+        logger.info("Starting subscription reconciliation", {
+            dryRun,
+            changedSince,
+        });
+
+        const corrections: ReconciliationCorrection[] = [];
+        // Statuses after this run, for recomputing profiles.subscribed
+        const statuses = new Map<string, SubscriptionStatus>();
+        const userIds = new Set<string>();
+        let checked = 0;
+        let failed = 0;
+
+        const subscriptions = await databaseService.getSubscriptionsToReconcile(
+            changedSince,
+            new Date(horizon).toISOString()
+        );
+
+        for (const subscription of subscriptions) {
+            try {
+                if (!(await this.isDue(subscription, changedSince, horizon))) {
+                    continue;
+                }
+
+                checked++;
+                userIds.add(subscription.user_id);
+
+                const appleStatus =
+                    await appStoreService.getAppleStatusForSubscription(
+                        subscription
+                    );
+                if (!appleStatus?.status) {
+                    logger.warn("Apple returned no status for subscription", {
+                        userId: subscription.user_id,
+                        transactionId: subscription.transaction_id,
+                    });
+                    failed++;
+                    continue;
+                }
+
+                statuses.set(subscription.transaction_id, appleStatus.status);
+                const correction = await this.reconcileSubscription(
+                    subscription,
+                    appleStatus.status,
+                    dryRun
+                );
+                if (correction) {
+                    corrections.push(correction);
+                }
+            } catch (error) {
+                logger.error("Error reconciling subscription:", {
+                    userId: subscription.user_id,
+                    transactionId: subscription.transaction_id,
+                    error,
+                });
+                failed++;
+            }
+        }
+
+        for (const userId of userIds) {
+            const correction = await this.reconcileProfile(
+                userId,
+                statuses,
+                dryRun
+            );
+            if (correction) {
+                corrections.push(correction);
+            }
+        }
+
+        const report: ReconciliationReport = {
+            dryRun,
+            startedAt: startedAt.toISOString(),
+            finishedAt: new Date().toISOString(),
+            checked,
+            failed,
+            corrections,
+        };
+
+        logger.info("Subscription reconciliation finished", {
+            dryRun,
+            checked,
+            failed,
+            corrections: corrections.length,
+        });
+
+        if (corrections.length > 0 || failed > 0) {
+            await discordService.sendReconciliationReport(report);
+        }
+
+        return report;
+    }
+
+    /**
+     * Recently changed subscriptions are always checked; ones that still
+     * grant access only once their paid period is close to ending
+     */
+    private async isDue(
+        subscription: SubscriptionRecord,
+        changedSince: string,
+        horizon: number
+    ): Promise<boolean> {
+        if (
+            subscription.status_updated_at &&
+            Date.parse(subscription.status_updated_at) >=
+                Date.parse(changedSince)
+        ) {
+            return true;
+        }
+
+        const latest = await databaseService.getLatestTransaction(
+            subscription.transaction_id
+        );
+        return !latest?.expires_at || Date.parse(latest.expires_at) <= horizon;
+    }
+
+    /**
+     * Bring one subscription in line with Apple. Apple's status is
+     * authoritative, so the transition rules for notifications don't apply.
+     */
+    private async reconcileSubscription(
+        subscription: SubscriptionRecord,
+        appleStatus: SubscriptionStatus,
+        dryRun: boolean
+    ): Promise<ReconciliationCorrection | null> {
+        const storedStatus = getEffectiveStatus(subscription);
+
+        if (storedStatus !== appleStatus) {
+            const correction: ReconciliationCorrection = {
+                userId: subscription.user_id,
+                transactionId: subscription.transaction_id,
+                field: "status",
+                from: subscription.status ?? null,
+                to: appleStatus,
+            };
+            this.logCorrection(correction, dryRun);
+
+            if (
+                !dryRun &&
+                !(await databaseService.updateSubscriptionStatus(
+                    subscription,
+                    appleStatus,
+                    "RECONCILE"
+                ))
+            ) {
+                throw new Error("Failed to save reconciled status");
+            }
+            return correction;
+        }
+
+        // The status is right but the legacy flag isn't
+        const expired = !statusGrantsAccess(appleStatus);
+        if (subscription.expired !== expired) {
+            const correction: ReconciliationCorrection = {
+                userId: subscription.user_id,
+                transactionId: subscription.transaction_id,
+                field: "expired",
+                from: subscription.expired ?? null,
+                to: expired,
+            };
+            this.logCorrection(correction, dryRun);
+
+            if (
+                !dryRun &&
+                !(await databaseService.updateSubscriptionFields(
+                    subscription.transaction_id,
+                    { expired }
+                ))
+            ) {
+                throw new Error("Failed to save reconciled expired flag");
+            }
+            return correction;
+        }
+
+        return null;
+    }
+
+    /**
+     * Recompute `profiles.subscribed` from every subscription the user has,
+     * using this run's statuses for the ones just checked, and their premium
+     * grants
+     */
+    private async reconcileProfile(
+        userId: string,
+        statuses: Map<string, SubscriptionStatus>,
+        dryRun: boolean
+    ): Promise<ReconciliationCorrection | null> {
+        const [profile, subscriptions, grants] = await Promise.all([
+            databaseService.getUserProfile(userId),
+            databaseService.getActiveSubscriptions(userId),
+            databaseService.getActiveEntitlementGrants(
+                userId,
+                ENTITLEMENTS.PREMIUM_SITUATIONS
+            ),
+        ]);
+        if (!profile) {
+            return null;
+        }
+
+        const subscribed =
+            grants.length > 0 ||
+            subscriptions.some((subscription) =>
+                statusGrantsAccess(
+                    statuses.get(subscription.transaction_id) ??
+                        getEffectiveStatus(subscription)
+                )
+            );
+        if (profile.subscribed === subscribed) {
+            return null;
+        }
+
+        const correction: ReconciliationCorrection = {
+            userId,
+            field: "subscribed",
+            from: profile.subscribed,
+            to: subscribed,
+        };
+        this.logCorrection(correction, dryRun);
+
+        if (!dryRun) {
+            await databaseService.updateUserSubscriptionStatus(
+                userId,
+                subscribed
+            );
+        }
+        return correction;
+    }
+
+    private logCorrection(
+        correction: ReconciliationCorrection,
+        dryRun: boolean
+    ): void {
+        logger.warn(
+            dryRun
+                ? "Reconciliation would correct drift:"
+                : "Reconciliation corrected drift:",
+            correction
+        );
+    }
+}
+
+export const reconciliationService = new ReconciliationService();
@@ -0,0 +1,417 @@
+import Stripe from "stripe";
+import { Type } from "@apple/app-store-server-library";
+import { config } from "@/utils/config";
+import logger from "@/utils/logger";
+import { ProductRecord, SubscriptionRecord, SubscriptionStatus } from "@/types";
+import {
+    fromStripeSubscriptionStatus,
+    isTransitionAllowed,
+    statusGrantsAccess,
+} from "@/utils/subscription-state";
+import { catalogService } from "./catalog";
+import { databaseService } from "./database";
+import { discordService } from "./discord";
+
+// Stripe events worth a Discord message, mapped to the App Store embed titles
+const DISCORD_TYPES: Record<string, string> = {
+    "checkout.session.completed": "SUBSCRIBED",
+    "customer.subscription.deleted": "EXPIRED",
+    "customer.subscription.updated": "DID_CHANGE_RENEWAL_STATUS",
+    "invoice.paid": "DID_RENEW",
+};
+
+// Stripe amounts are in the currency's smallest unit. Most currencies have
+// two decimals; these are the exceptions Stripe lists.
+const ZERO_DECIMAL_CURRENCIES = new Set([
+    "BIF",
+    "CLP",
+    "DJF",
+    "GNF",
+    "JPY",
+    "KMF",
+    "KRW",
+    "MGA",
+    "PYG",
+    "RWF",
+    "UGX",
+    "VND",
+    "VUV",
+    "XAF",
+    "XOF",
+    "XPF",
+]);
+const THREE_DECIMAL_CURRENCIES = new Set(["BHD", "JOD", "KWD", "OMR", "TND"]);
+
+/**
+ * Convert a Stripe amount to the ledger's milliunits (thousandths of the
+ * currency's major unit, like App Store prices)
+ */
+function toMilliunits(amount: number, currency: string): number {
+    const code = currency.toUpperCase();
+    const exponent = ZERO_DECIMAL_CURRENCIES.has(code)
+        ? 0
+        : THREE_DECIMAL_CURRENCIES.has(code)
+          ? 3
+          : 2;
+    return (amount * 1000) / 10 ** exponent;
+}
+
+class StripeService {
+    private stripe: Stripe | null = config.stripe.secretKey
+        ? new Stripe(config.stripe.secretKey)
+        : null;
+
+    isConfigured(): boolean {
+        return !!this.stripe && !!config.stripe.webhookSecret;
+    }
+
+    /**
+     * Start a hosted Checkout session for a catalog subscription with a
+     * Stripe price. Returns the URL to send the user to.
+     */
+    async createCheckoutSession(
+        userId: string,
+        product: ProductRecord,
+        successUrl: string,
+        cancelUrl: string
+    ): Promise<string | null> {
+        const customerId = await this.getOrCreateCustomer(userId);
+
+        const session = await this.getClient().checkout.sessions.create({
+            mode: "subscription",
+            customer: customerId,
+            client_reference_id: userId,
+            line_items: [{ price: product.stripe_price_id!, quantity: 1 }],
+            subscription_data: {
+                metadata: { user_id: userId },
+            },
+            success_url: successUrl,
+            cancel_url: cancelUrl,
+        });
+
+        logger.info("Stripe checkout session created:", {
+            userId,
+            productId: product.product_id,
+            sessionId: session.id,
+        });
+
+        return session.url;
+    }
+
+    /**
+     * Customer portal link for managing or canceling a web subscription.
+     * Null when the user has never checked out on the web.
+     */
+    async createPortalSession(
+        userId: string,
+        returnUrl: string
+    ): Promise<string | null> {
+        const profile = await databaseService.getUserProfile(userId);
+        if (!profile?.stripe_customer_id) {
+            return null;
+        }
+
+        const session = await this.getClient().billingPortal.sessions.create({
+            customer: profile.stripe_customer_id,
+            return_url: returnUrl,
+        });
+
+        return session.url;
+    }
+
+    /**
+     * Verify the Stripe-Signature header against the raw request body
+     */
+    constructWebhookEvent(payload: Buffer, signature: string): Stripe.Event {
+        return this.getClient().webhooks.constructEvent(
+            payload,
+            signature,
+            config.stripe.webhookSecret
+        );
+    }
+
+    /**
+     * Apply a webhook event. Returns "ignored" for events that change
+     * nothing; throws when it can't be processed so Stripe retries it.
+     */
+    async handleWebhookEvent(
+        event: Stripe.Event
+    ): Promise<"processed" | "ignored"> {
+        logger.info("Processing Stripe event:", {
+            id: event.id,
+            type: event.type,
+        });
+
+        switch (event.type) {
+            case "checkout.session.completed": {
+                const session = event.data.object;
+                if (session.mode !== "subscription" || !session.subscription) {
+                    return "ignored";
+                }
+                return this.applySubscription(
+                    this.getId(session.subscription),
+                    event.type
+                );
+            }
+
+            case "customer.subscription.created":
+            case "customer.subscription.updated":
+            case "customer.subscription.deleted":
+            case "customer.subscription.paused":
+            case "customer.subscription.resumed":
+                return this.applySubscription(event.data.object.id, event.type);
+
+            case "invoice.paid": {
+                const invoice = event.data.object;
+                if (!invoice.subscription) {
+                    return "ignored";
+                }
+                const subscriptionId = this.getId(invoice.subscription);
+                // The first invoice is announced by checkout.session.completed
+                const result = await this.applySubscription(
+                    subscriptionId,
+                    event.type,
+                    invoice.billing_reason === "subscription_cycle"
+                );
+                await this.recordInvoice(invoice, subscriptionId);
+                return result;
+            }
+
+            default:
+                logger.info("Unhandled Stripe event type:", event.type);
+                return "ignored";
+        }
+    }
+
+    /**
+     * Store a subscription's current Stripe state. Events can arrive out of
+     * order, so the subscription is re-fetched instead of trusting the
+     * event payload.
+     */
+    private async applySubscription(
+        subscriptionId: string,
+        eventType: string,
+        notify = true
+    ): Promise<"processed" | "ignored"> {
+        const subscription =
+            await this.getClient().subscriptions.retrieve(subscriptionId);
+        const status = fromStripeSubscriptionStatus(subscription.status);
+
+        if (!status) {
+            logger.info("Stripe subscription has no status yet:", {
+                subscriptionId,
+                stripeStatus: subscription.status,
+            });
+            return "ignored";
+        }
+
+        const userId = await this.findUser(subscription);
+        if (!userId) {
+            throw new Error(
+                `No user found for Stripe subscription: ${subscriptionId}`
+            );
+        }
+
+        const product = await this.getSubscriptionProduct(subscription);
+        const record =
+            (await databaseService.getSubscriptionByTransactionId(
+                subscriptionId
+            )) ||
+            (await databaseService.insertSubscriptionRecord({
+                user_id: userId,
+                product_id: product.product_id,
+                transaction_id: subscriptionId,
+                environment: subscription.livemode ? "Production" : "Sandbox",
+                purchased_at: new Date(
+                    subscription.start_date * 1000
+                ).toISOString(),
+                ownership_type: "PURCHASED",
+                platform: "stripe",
+            }));
+
+        if (!record) {
+            throw new Error(
+                `Failed to store Stripe subscription: ${subscriptionId}`
+            );
+        }
+
+        await databaseService.updateSubscriptionFields(subscriptionId, {
+            product_id: product.product_id,
+            expires_at: new Date(
+                subscription.current_period_end * 1000
+            ).toISOString(),
+            auto_renew_status: subscription.cancel_at_period_end ? 0 : 1,
+        });
+
+        const statusChanged = await this.transitionStatus(
+            record,
+            status,
+            eventType
+        );
+        await databaseService.refreshUserSubscriptionStatus(userId);
+
+        if (statusGrantsAccess(status)) {
+            await databaseService.setHasPurchasedSubscriptionBefore(userId);
+        }
+
+        // A checkout fires several events; only announce the meaningful ones.
+        // Subscription updates also cover e.g. payment method changes, so
+        // they're only announced when the status moved.
+        const discordType = DISCORD_TYPES[eventType];
+        if (
+            discordType &&
+            notify &&
+            (eventType !== "customer.subscription.updated" || statusChanged)
+        ) {
+            await discordService.sendAppStoreNotification({
+                type: discordType,
+                userId,
+                productId: product.product_id,
+                transactionId: subscriptionId,
+                environment: record.environment,
+                subtype: eventType,
+                platform: "stripe",
+            });
+        }
+
+        return "processed";
+    }
+
+    /**
+     * Add a paid invoice to the ledger. Its period end is the
+     * subscription's expiry until the next invoice is paid.
+     */
+    private async recordInvoice(
+        invoice: Stripe.Invoice,
+        subscriptionId: string
+    ): Promise<void> {
+        const subscription =
+            await databaseService.getSubscriptionByTransactionId(
+                subscriptionId
+            );
+        if (!subscription) {
+            return;
+        }
+
+        const line = invoice.lines.data.find(
+            (item) => item.type === "subscription"
+        );
+
+        await databaseService.insertTransactionRecord({
+            user_id: subscription.user_id,
+            transaction_id: invoice.id,
+            original_transaction_id: subscriptionId,
+            product_id: subscription.product_id,
+            environment: invoice.livemode ? "Production" : "Sandbox",
+            purchased_at: new Date(
+                (invoice.status_transitions.paid_at || invoice.created) * 1000
+            ).toISOString(),
+            expires_at: line
+                ? new Date(line.period.end * 1000).toISOString()
+                : null,
+            price: toMilliunits(invoice.amount_paid, invoice.currency),
+            currency: invoice.currency.toUpperCase(),
+            product_type: Type.AUTO_RENEWABLE_SUBSCRIPTION,
+            ownership_type: "PURCHASED",
+            platform: "stripe",
+        });
+    }
+
+    /**
+     * The user behind a subscription: the metadata set at checkout, or the
+     * profile linked to the Stripe customer
+     */
+    private async findUser(
+        subscription: Stripe.Subscription
+    ): Promise<string | null> {
+        const userId = subscription.metadata.user_id;
+        if (userId && (await databaseService.getUserProfile(userId))) {
+            return userId;
+        }
+
+        const profile = await databaseService.getUserProfileByStripeCustomerId(
+            this.getId(subscription.customer)
+        );
+        return profile?.user_id ?? null;
+    }
+
+    private async getSubscriptionProduct(
+        subscription: Stripe.Subscription
+    ): Promise<ProductRecord> {
+        const priceId = subscription.items.data[0]?.price.id;
+        const product = priceId
+            ? await catalogService.getProductByStripePriceId(priceId)
+            : null;
+
+        if (!product) {
+            throw new Error(`No catalog product for Stripe price: ${priceId}`);
+        }
+
+        return product;
+    }
+
+    private async getOrCreateCustomer(userId: string): Promise<string> {
+        const profile = await databaseService.getUserProfile(userId);
+        if (profile?.stripe_customer_id) {
+            return profile.stripe_customer_id;
+        }
+
+        const customer = await this.getClient().customers.create({
+            metadata: { user_id: userId },
+        });
+        await databaseService.setStripeCustomerId(userId, customer.id);
+
+        return customer.id;
+    }
+
+    /**
+     * Move the subscription to a new status. Returns whether it changed.
+     */
+    private async transitionStatus(
+        subscription: SubscriptionRecord,
+        toStatus: SubscriptionStatus,
+        eventType: string
+    ): Promise<boolean> {
+        const fromStatus = subscription.status ?? null;
+
+        if (fromStatus === toStatus) {
+            return false;
+        }
+
+        if (!isTransitionAllowed(fromStatus, toStatus)) {
+            logger.warn("Rejected illegal subscription status transition:", {
+                userId: subscription.user_id,
+                transactionId: subscription.transaction_id,
+                fromStatus,
+                toStatus,
+                eventType,
+            });
+            return false;
+        }
+
+        const updated = await databaseService.updateSubscriptionStatus(
+            subscription,
+            toStatus,
+            eventType
+        );
+        if (!updated) {
+            throw new Error(
+                `Failed to update Stripe subscription status to ${toStatus}`
+            );
+        }
+        return true;
+    }
+
+    private getId(value: string | { id: string }): string {
+        return typeof value === "string" ? value : value.id;
+    }
+
+    private getClient(): Stripe {
+        if (!this.stripe) {
+            throw new Error("Stripe is not configured");
+        }
+        return this.stripe;
+    }
+}
+
+export const stripeService = new StripeService();
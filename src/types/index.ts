@@ -1,3 +1,12 @@
+import {
+    JWSRenewalInfoDecodedPayload,
+    JWSTransactionDecodedPayload,
+} from "@apple/app-store-server-library";
+
+export type AppleEnvironment = "Sandbox" | "Production";
+
+export type Platform = "app_store" | "google_play" | "stripe";
+
 export interface SubscriptionRecord {
     id?: number;
     user_id: string;
@@ -5,11 +14,130 @@ export interface SubscriptionRecord {
     transaction_id: string;
     environment: "Sandbox" | "Production";
     purchased_at: string;
+    expires_at?: string | null;
     expired?: boolean | null;
+    status?: SubscriptionStatus | null;
+    status_updated_at?: string | null;
+    price_increase_status?: number | null;
+    auto_renew_status?: number | null;
+    auto_renew_product_id?: string | null;
+    expiration_intent?: number | null;
+    grace_period_expires_at?: string | null;
+    is_in_billing_retry_period?: boolean | null;
+    last_event_signed_at?: string | null;
+    last_transaction_purchased_at?: string | null;
+    ownership_type?: OwnershipType | null;
+    platform?: Platform | null;
+    created_at?: string;
+    updated_at?: string;
+}
+
+export type OwnershipType = "PURCHASED" | "FAMILY_SHARED";
+
+export type SubscriptionStatus =
+    "active" | "grace_period" | "billing_retry" | "expired" | "revoked";
+
+export interface SubscriptionStatusTransition {
+    id?: number;
+    user_id: string;
+    transaction_id: string;
+    from_status: SubscriptionStatus | null;
+    to_status: SubscriptionStatus;
+    notification_type: string;
+    subtype?: string | null;
+    created_at?: string;
+}
+
+export interface TransactionRecord {
+    id?: number;
+    user_id: string;
+    transaction_id: string;
+    original_transaction_id: string;
+    product_id: string;
+    environment: "Sandbox" | "Production";
+    purchased_at: string;
+    expires_at?: string | null;
+    price?: number | null;
+    currency?: string | null;
+    offer_type?: number | null;
+    offer_identifier?: string | null;
+    revocation_date?: string | null;
+    revocation_reason?: number | null;
+    product_type?: string | null;
+    refund_status?: RefundStatus | null;
+    // Whether the one-time purchase's credits or unlock are currently applied
+    granted?: boolean;
+    ownership_type?: OwnershipType | null;
+    platform?: Platform | null;
     created_at?: string;
     updated_at?: string;
 }
 
+export type RefundStatus = "requested" | "declined" | "refunded" | "reversed";
+
+export interface OfferRedemptionRecord {
+    id?: number;
+    user_id: string;
+    transaction_id: string;
+    original_transaction_id: string;
+    product_id: string;
+    offer_type: number | null;
+    offer_identifier: string | null;
+    environment: "Sandbox" | "Production";
+    redeemed_at: string;
+    created_at?: string;
+}
+
+export type RenewalExtensionStatus = "pending" | "completed" | "failed";
+
+export interface RenewalExtensionRequestRecord {
+    id?: number;
+    request_identifier: string;
+    scope: "user" | "product";
+    user_id?: string | null;
+    product_id: string;
+    original_transaction_id?: string | null;
+    extend_by_days: number;
+    extend_reason_code: number;
+    storefront_country_codes?: string[] | null;
+    environment: AppleEnvironment;
+    status: RenewalExtensionStatus;
+    succeeded_count?: number | null;
+    failed_count?: number | null;
+    effective_date?: string | null;
+    error?: string | null;
+    completed_at?: string | null;
+    created_at?: string;
+    updated_at?: string;
+}
+
+export interface ReconciliationCorrection {
+    userId: string;
+    transactionId?: string;
+    field: "status" | "expired" | "subscribed";
+    from: SubscriptionStatus | boolean | null;
+    to: SubscriptionStatus | boolean;
+}
+
+export interface ReconciliationReport {
+    dryRun: boolean;
+    startedAt: string;
+    finishedAt: string;
+    checked: number;
+    failed: number;
+    corrections: ReconciliationCorrection[];
+}
+
+export interface PromotionalOfferSignature {
+    productId: string;
+    offerId: string;
+    appAccountToken: string;
+    keyIdentifier: string;
+    nonce: string;
+    timestamp: number;
+    signature: string;
+}
+
 export interface UserProfile {
     user_id: string;
     callsign: string;
@@ -19,6 +147,10 @@ export interface UserProfile {
     has_purchased_subscription_before: boolean;
     onboarding_complete: boolean;
     one_time_unlock: boolean;
+    situation_credits: number;
+    tts_requests?: number;
+    consumption_data_consent?: boolean;
+    stripe_customer_id?: string | null;
     subscribed: boolean;
     subscribed_updated_time?: string;
     created_at: string;
@@ -30,31 +162,163 @@ export interface ValidationRequest {
     transactionId?: string;
     productId: string;
     environment?: "Sandbox" | "Production";
+    platform?: Platform;
 }
 
 export interface ValidationResponse {
     success: boolean;
     subscriptionActive: boolean;
+    productType?: string | undefined;
+    entitlementGranted?: boolean | undefined;
+    ownershipType?: OwnershipType | undefined;
     transactionId?: string | undefined;
     expiresDate?: string | undefined;
     error?: string | undefined;
 }
 
+export interface AppleSubscriptionStatus {
+    active: boolean;
+    status?: SubscriptionStatus;
+    expiresDate?: string;
+    gracePeriodExpiresDate?: string;
+    autoRenewProductId?: string;
+    autoRenewStatus?: number;
+    subscriptionGroupIdentifier?: string;
+    latestTransaction?: JWSTransactionDecodedPayload;
+    renewalInfo?: JWSRenewalInfoDecodedPayload;
+    // Apple couldn't be asked, so `active: false` means unknown rather
+    // than lapsed
+    lookupFailed?: boolean;
+}
+
 export interface WebhookNotification {
     notificationType: string;
     subtype?: string;
-    data: {
+    notificationUUID?: string;
+    data?: {
         appAppleId: number;
         bundleId: string;
         bundleVersion: string;
         environment: string;
-        signedTransactionInfo: string;
+        signedTransactionInfo?: string;
         signedRenewalInfo?: string;
+        status?: number;
+        consumptionRequestReason?: string;
+    };
+    summary?: {
+        environment?: string;
+        productId?: string;
+        requestIdentifier?: string;
+        storefrontCountryCodes?: string[];
+        succeededCount?: number;
+        failedCount?: number;
+    };
+    externalPurchaseToken?: {
+        externalPurchaseId?: string;
+        tokenCreationDate?: number;
+        appAppleId?: number;
+        bundleId?: string;
     };
     version: string;
     signedDate: number;
 }
 
+export type NotificationEventStatus =
+    "received" | "processed" | "ignored" | "failed";
+
+export interface NotificationEventRecord {
+    id?: number;
+    notification_uuid: string;
+    notification_type: string;
+    subtype?: string | null;
+    signed_date?: string | null;
+    signed_payload: string;
+    payload: WebhookNotification;
+    status: NotificationEventStatus;
+    error?: string | null;
+    attempts: number;
+    processed_at?: string | null;
+    created_at?: string;
+    updated_at?: string;
+}
+
+// Claims of a Supabase Auth access token that we rely on
+export interface SupabaseJwtPayload {
+    sub: string;
+    aud: string | string[];
+    exp: number;
+    iat?: number;
+    nbf?: number;
+    iss: string;
+    role?: string;
+    email?: string;
+}
+
+export const API_KEY_SCOPES = [
+    "products:read",
+    "subscriptions:read",
+    "subscriptions:write",
+    "offers:sign",
+    "tts:synthesize",
+    // Support staff endpoints under /api/admin/users
+    "support",
+    // Admin and operations endpoints; also grants every other scope
+    "admin",
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export interface ApiKeyRecord {
+    id: string;
+    name: string;
+    key_prefix: string; // Identifies the key in lookups and listings
+    key_hash: string; // SHA-256 of the full key, hex
+    scopes: ApiKeyScope[];
+    // Person the key was issued to; required for support and admin keys
+    owner?: string | null;
+    expires_at?: string | null;
+    revoked_at?: string | null;
+    last_used_at?: string | null;
+    created_at?: string;
+}
+
+// What a request knows about the key it was made with
+export type AuthenticatedApiKey = Pick<
+    ApiKeyRecord,
+    "id" | "name" | "scopes" | "owner"
+>;
+
+// Changed fields of an audited record, before and after
+export type AuditDiff = Record<string, { from: unknown; to: unknown }>;
+
+export interface AdminAuditLogRecord {
+    id?: number;
+    actor: string; // Owner of the API key that made the request
+    actor_key_id: string;
+    action: string;
+    target_type: string;
+    target_id: string;
+    diff?: AuditDiff | null;
+    reason?: string | null;
+    created_at?: string;
+}
+
+export interface EntitlementGrantRecord {
+    id: string;
+    user_id: string;
+    entitlement: Entitlement;
+    reason: string;
+    granted_by: string;
+    starts_at: string;
+    expires_at: string;
+    // Set once profiles.subscribed has been updated for the start and end
+    activated_at?: string | null;
+    ended_at?: string | null;
+    revoked_at?: string | null;
+    revoked_by?: string | null;
+    created_at?: string;
+}
+
 export interface APIResponse<T = any> {
     success: boolean;
     data?: T;
@@ -62,14 +326,43 @@ export interface APIResponse<T = any> {
     message?: string;
 }
 
-export const SUBSCRIPTION_PRODUCTS = {
-    WEEKLY: "com.comms.comms.premium_weekly",
-    MONTHLY: "com.comms.comms.premium_monthly",
-    YEARLY: "com.comms.comms.premium_yearly",
+export type ProductType =
+    "auto_renewable" | "non_renewing" | "non_consumable" | "consumable";
+
+export const ENTITLEMENTS = {
+    PREMIUM_SITUATIONS: "premium_situations",
+    ADVANCED_VOICES: "advanced_voices",
+    UNLIMITED_TTS: "unlimited_tts",
 } as const;
 
-export type SubscriptionProduct =
-    (typeof SUBSCRIPTION_PRODUCTS)[keyof typeof SUBSCRIPTION_PRODUCTS];
+export type Entitlement = (typeof ENTITLEMENTS)[keyof typeof ENTITLEMENTS];
+
+export interface ActiveEntitlement {
+    entitlement: string;
+    source: "subscription" | "one_time_purchase" | "grant";
+    productId?: string; // Not set for grants
+    grantId?: string;
+    status?: SubscriptionStatus;
+    ownershipType?: OwnershipType;
+    expiresAt: string | null;
+    willRenew: boolean;
+}
+
+export interface ProductRecord {
+    product_id: string;
+    type: ProductType;
+    subscription_group?: string | null;
+    duration?: string | null; // ISO 8601 period, e.g. P1W, P1M, P1Y
+    entitlements: string[];
+    display_name: string;
+    description?: string | null;
+    situation_credits?: number | null;
+    stripe_price_id?: string | null;
+    sort_order: number;
+    active: boolean;
+    created_at?: string;
+    updated_at?: string;
+}
 
 export interface SupabaseWebhookPayload {
     type: "INSERT" | "UPDATE" | "DELETE";
@@ -78,3 +371,80 @@ export interface SupabaseWebhookPayload {
     schema: string;
     old_record: any | null;
 }
+
+// Subset of the Android Publisher API's SubscriptionPurchaseV2
+export interface GoogleSubscriptionPurchase {
+    subscriptionState:
+        | "SUBSCRIPTION_STATE_UNSPECIFIED"
+        | "SUBSCRIPTION_STATE_PENDING"
+        | "SUBSCRIPTION_STATE_ACTIVE"
+        | "SUBSCRIPTION_STATE_PAUSED"
+        | "SUBSCRIPTION_STATE_IN_GRACE_PERIOD"
+        | "SUBSCRIPTION_STATE_ON_HOLD"
+        | "SUBSCRIPTION_STATE_CANCELED"
+        | "SUBSCRIPTION_STATE_EXPIRED"
+        | "SUBSCRIPTION_STATE_PENDING_PURCHASE_CANCELED";
+    startTime?: string;
+    latestOrderId?: string;
+    linkedPurchaseToken?: string;
+    acknowledgementState?:
+        | "ACKNOWLEDGEMENT_STATE_UNSPECIFIED"
+        | "ACKNOWLEDGEMENT_STATE_PENDING"
+        | "ACKNOWLEDGEMENT_STATE_ACKNOWLEDGED";
+    testPurchase?: object;
+    externalAccountIdentifiers?: {
+        obfuscatedExternalAccountId?: string;
+        obfuscatedExternalProfileId?: string;
+    };
+    lineItems?: {
+        productId: string;
+        expiryTime?: string;
+        latestSuccessfulOrderId?: string;
+        autoRenewingPlan?: { autoRenewEnabled?: boolean };
+        offerDetails?: { basePlanId?: string; offerId?: string };
+    }[];
+}
+
+// Subset of the Android Publisher API's ProductPurchase
+export interface GoogleProductPurchase {
+    orderId?: string;
+    purchaseTimeMillis?: string;
+    // 0 purchased, 1 canceled, 2 pending
+    purchaseState?: number;
+    // 0 yet to be consumed, 1 consumed
+    consumptionState?: number;
+    // 0 yet to be acknowledged, 1 acknowledged
+    acknowledgementState?: number;
+    // 0 test (licensed tester), 1 promo, 2 rewarded; absent for real purchases
+    purchaseType?: number;
+    obfuscatedExternalAccountId?: string;
+    quantity?: number;
+}
+
+// Real-time developer notification, delivered base64-encoded by Pub/Sub
+export interface GoogleDeveloperNotification {
+    version: string;
+    packageName: string;
+    eventTimeMillis: string;
+    subscriptionNotification?: {
+        version: string;
+        notificationType: number;
+        purchaseToken: string;
+        subscriptionId?: string;
+    };
+    oneTimeProductNotification?: {
+        version: string;
+        notificationType: number;
+        purchaseToken: string;
+        sku: string;
+    };
+    voidedPurchaseNotification?: {
+        purchaseToken: string;
+        orderId: string;
+        productType: number;
+        refundType: number;
+    };
+    testNotification?: {
+        version: string;
+    };
+}
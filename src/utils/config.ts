@@ -19,6 +19,31 @@ interface Config {
         environment: "Sandbox" | "Production";
         privateKey: string;
     };
+    google: {
+        packageName: string;
+        serviceAccountEmail: string;
+        serviceAccountPrivateKey: string;
+        apiBaseUrl: string;
+        tokenUrl: string;
+        pubsubVerificationToken: string;
+    };
+    stripe: {
+        secretKey: string;
+        webhookSecret: string;
+    };
+    reconciliation: {
+        intervalMinutes: number;
+        dryRun: boolean;
+        lookbackHours: number;
+        lookaheadHours: number;
+    };
+    expiry: {
+        intervalMinutes: number;
+        bufferMinutes: number;
+    };
+    rateLimit: {
+        exemptPaths: string[];
+    };
     security: {
         jwtSecret: string;
         apiKey: string;
@@ -53,7 +78,6 @@ function validateConfig(): Config {
         "APPLE_APP_APPLE_ID",
         "APPLE_PRIVATE_KEY",
         "JWT_SECRET",
-        "API_KEY",
     ];
 
     const missing = requiredEnvVars.filter((envVar) => !process.env[envVar]);
@@ -85,9 +109,70 @@ function validateConfig(): Config {
             environment: (environment as "Sandbox" | "Production") || "Sandbox",
             privateKey: loadApplePrivateKey(),
         },
+        // Google Play is optional; leave these unset to disable it
+        google: {
+            packageName: process.env.GOOGLE_PLAY_PACKAGE_NAME || "",
+            serviceAccountEmail: process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL || "",
+            serviceAccountPrivateKey: (
+                process.env.GOOGLE_SERVICE_ACCOUNT_PRIVATE_KEY || ""
+            ).replace(/\\n/g, "\n"),
+            apiBaseUrl:
+                process.env.GOOGLE_PLAY_API_BASE_URL ||
+                "https://androidpublisher.googleapis.com",
+            tokenUrl:
+                process.env.GOOGLE_OAUTH_TOKEN_URL ||
+                "https://oauth2.googleapis.com/token",
+            pubsubVerificationToken:
+                process.env.GOOGLE_PUBSUB_VERIFICATION_TOKEN || "",
+        },
+        // Stripe web checkout is optional as well
+        stripe: {
+            secretKey: process.env.STRIPE_SECRET_KEY || "",
+            webhookSecret: process.env.STRIPE_WEBHOOK_SECRET || "",
+        },
+        // Set RECONCILE_INTERVAL_MINUTES=0 to turn the scheduled run off
+        reconciliation: {
+            intervalMinutes: parseInt(
+                process.env.RECONCILE_INTERVAL_MINUTES || "60",
+                10
+            ),
+            dryRun: process.env.RECONCILE_DRY_RUN === "true",
+            lookbackHours: parseInt(
+                process.env.RECONCILE_LOOKBACK_HOURS || "48",
+                10
+            ),
+            lookaheadHours: parseInt(
+                process.env.RECONCILE_LOOKAHEAD_HOURS || "24",
+                10
+            ),
+        },
+        // Set EXPIRY_CHECK_INTERVAL_MINUTES=0 to turn the expiry worker off
+        expiry: {
+            intervalMinutes: parseInt(
+                process.env.EXPIRY_CHECK_INTERVAL_MINUTES || "15",
+                10
+            ),
+            bufferMinutes: parseInt(
+                process.env.EXPIRY_BUFFER_MINUTES || "60",
+                10
+            ),
+        },
+        // Paths the per-IP rate limits skip, the webhook receivers by default.
+        // Set RATE_LIMIT_EXEMPT_PATHS= (empty) to limit them too.
+        rateLimit: {
+            exemptPaths: (
+                process.env.RATE_LIMIT_EXEMPT_PATHS ??
+                "/api/webhooks/apple,/api/webhooks/google,/api/webhooks/stripe,/api/webhooks/supabase/profile"
+            )
+                .split(",")
+                .map((path) => path.trim())
+                .filter(Boolean),
+        },
         security: {
             jwtSecret: process.env.JWT_SECRET!,
-            apiKey: process.env.API_KEY!,
+            // API_KEY is the legacy single key, accepted with the client
+            // scopes. Leave it unset once clients use keys from api_keys.
+            apiKey: process.env.API_KEY || "",
         },
         logging: {
             level: process.env.LOG_LEVEL || "info",
@@ -0,0 +1,361 @@
+import assert from "assert/strict";
+import { describe, it } from "node:test";
+import type {
+    GoogleSubscriptionPurchase,
+    SubscriptionRecord,
+    SubscriptionStatus,
+} from "@/types";
+import {
+    fromAppleStatus,
+    fromGoogleSubscriptionState,
+    fromStripeSubscriptionStatus,
+    isStaleNotification,
+    isTransitionAllowed,
+    resolveStatusForNotification,
+} from "./subscription-state";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const STATUSES: SubscriptionStatus[] = [
+    "active",
+    "grace_period",
+    "billing_retry",
+    "expired",
+    "revoked",
+];
+
+const subscription = (
+    fields: Partial<SubscriptionRecord> = {}
+): SubscriptionRecord => ({
+    user_id: "7d3f9a52-0c1e-4b8a-9f6d-2e5c8b1a4d70",
+    product_id: "premium_monthly",
+    transaction_id: "2000000123456789",
+    environment: "Sandbox",
+    purchased_at: "2026-01-01T00:00:00Z",
+    ...fields,
+});
+
+const googlePurchase = (
+    subscriptionState: GoogleSubscriptionPurchase["subscriptionState"]
+) => ({ subscriptionState }) as GoogleSubscriptionPurchase;
+
+describe("isTransitionAllowed", () => {
+    it("lets a subscription without a status enter any state", () => {
+        for (const to of STATUSES) {
+            assert.equal(isTransitionAllowed(null, to), true);
+            assert.equal(isTransitionAllowed(undefined, to), true);
+        }
+    });
+
+    it("lets every status stay, or become active, expired or revoked", () => {
+        for (const from of STATUSES) {
+            assert.equal(isTransitionAllowed(from, "active"), true);
+            assert.equal(isTransitionAllowed(from, "revoked"), true);
+            assert.equal(isTransitionAllowed(from, "expired"), true);
+            assert.equal(isTransitionAllowed(from, from), true);
+        }
+    });
+
+    it("moves active and grace period into billing retry", () => {
+        assert.equal(isTransitionAllowed("active", "grace_period"), true);
+        assert.equal(isTransitionAllowed("active", "billing_retry"), true);
+        assert.equal(
+            isTransitionAllowed("grace_period", "billing_retry"),
+            true
+        );
+    });
+
+    it("rejects going back into grace period or billing retry", () => {
+        assert.equal(
+            isTransitionAllowed("billing_retry", "grace_period"),
+            false
+        );
+        for (const from of ["expired", "revoked"] as const) {
+            assert.equal(isTransitionAllowed(from, "grace_period"), false);
+            assert.equal(isTransitionAllowed(from, "billing_retry"), false);
+        }
+    });
+});
+
+describe("resolveStatusForNotification", () => {
+    it("maps renewals and new subscriptions to active", () => {
+        for (const type of ["SUBSCRIBED", "DID_RENEW", "RENEWAL_EXTENDED"]) {
+            assert.equal(resolveStatusForNotification(type), "active");
+        }
+    });
+
+    it("only activates offers that start a subscription now", () => {
+        for (const subtype of ["INITIAL_BUY", "RESUBSCRIBE", "UPGRADE"]) {
+            assert.equal(
+                resolveStatusForNotification("OFFER_REDEEMED", subtype),
+                "active"
+            );
+        }
+        assert.equal(
+            resolveStatusForNotification("OFFER_REDEEMED", "DOWNGRADE"),
+            null
+        );
+        assert.equal(resolveStatusForNotification("OFFER_REDEEMED"), null);
+    });
+
+    it("restores a reversed refund only within the paid period", () => {
+        assert.equal(
+            resolveStatusForNotification(
+                "REFUND_REVERSED",
+                undefined,
+                Date.now() + HOUR_MS
+            ),
+            "active"
+        );
+        assert.equal(
+            resolveStatusForNotification(
+                "REFUND_REVERSED",
+                undefined,
+                Date.now() - HOUR_MS
+            ),
+            "expired"
+        );
+        assert.equal(resolveStatusForNotification("REFUND_REVERSED"), "active");
+    });
+
+    it("maps failed renewals to grace period or billing retry", () => {
+        assert.equal(
+            resolveStatusForNotification("DID_FAIL_TO_RENEW", "GRACE_PERIOD"),
+            "grace_period"
+        );
+        assert.equal(
+            resolveStatusForNotification("DID_FAIL_TO_RENEW"),
+            "billing_retry"
+        );
+    });
+
+    it("maps expiry, refunds and revocations", () => {
+        assert.equal(resolveStatusForNotification("EXPIRED"), "expired");
+        assert.equal(
+            resolveStatusForNotification("GRACE_PERIOD_EXPIRED"),
+            "expired"
+        );
+        assert.equal(resolveStatusForNotification("REFUND"), "revoked");
+        assert.equal(resolveStatusForNotification("REVOKE"), "revoked");
+    });
+
+    it("leaves informational notifications alone", () => {
+        for (const type of [
+            "DID_CHANGE_RENEWAL_PREF",
+            "DID_CHANGE_RENEWAL_STATUS",
+            "PRICE_INCREASE",
+            "CONSUMPTION_REQUEST",
+            "TEST",
+        ]) {
+            assert.equal(resolveStatusForNotification(type), null);
+        }
+    });
+});
+
+describe("fromAppleStatus", () => {
+    it("maps each of Apple's statuses", () => {
+        assert.equal(fromAppleStatus(1), "active");
+        assert.equal(fromAppleStatus(2), "expired");
+        assert.equal(fromAppleStatus(3), "billing_retry");
+        assert.equal(fromAppleStatus(4), "grace_period");
+        assert.equal(fromAppleStatus(5), "revoked");
+    });
+
+    it("treats a missing or unknown status as expired", () => {
+        assert.equal(fromAppleStatus(undefined), "expired");
+        assert.equal(fromAppleStatus(99), "expired");
+    });
+});
+
+describe("fromGoogleSubscriptionState", () => {
+    it("maps each of Google's states", () => {
+        assert.equal(
+            fromGoogleSubscriptionState(
+                googlePurchase("SUBSCRIPTION_STATE_ACTIVE"),
+                undefined
+            ),
+            "active"
+        );
+        assert.equal(
+            fromGoogleSubscriptionState(
+                googlePurchase("SUBSCRIPTION_STATE_IN_GRACE_PERIOD"),
+                undefined
+            ),
+            "grace_period"
+        );
+        assert.equal(
+            fromGoogleSubscriptionState(
+                googlePurchase("SUBSCRIPTION_STATE_ON_HOLD"),
+                undefined
+            ),
+            "billing_retry"
+        );
+        assert.equal(
+            fromGoogleSubscriptionState(
+                googlePurchase("SUBSCRIPTION_STATE_PAUSED"),
+                undefined
+            ),
+            "expired"
+        );
+        assert.equal(
+            fromGoogleSubscriptionState(
+                googlePurchase("SUBSCRIPTION_STATE_EXPIRED"),
+                undefined
+            ),
+            "expired"
+        );
+    });
+
+    it("keeps a canceled subscription active until the period ends", () => {
+        const canceled = googlePurchase("SUBSCRIPTION_STATE_CANCELED");
+
+        assert.equal(
+            fromGoogleSubscriptionState(canceled, Date.now() + HOUR_MS),
+            "active"
+        );
+        assert.equal(
+            fromGoogleSubscriptionState(canceled, Date.now() - HOUR_MS),
+            "expired"
+        );
+        assert.equal(
+            fromGoogleSubscriptionState(canceled, undefined),
+            "expired"
+        );
+    });
+
+    it("has no status for pending or unspecified purchases", () => {
+        assert.equal(
+            fromGoogleSubscriptionState(
+                googlePurchase("SUBSCRIPTION_STATE_PENDING"),
+                undefined
+            ),
+            null
+        );
+        assert.equal(
+            fromGoogleSubscriptionState(
+                googlePurchase("SUBSCRIPTION_STATE_UNSPECIFIED"),
+                undefined
+            ),
+            null
+        );
+    });
+});
+
+describe("fromStripeSubscriptionStatus", () => {
+    it("maps each of Stripe's statuses", () => {
+        assert.equal(fromStripeSubscriptionStatus("active"), "active");
+        assert.equal(fromStripeSubscriptionStatus("trialing"), "active");
+        assert.equal(fromStripeSubscriptionStatus("past_due"), "billing_retry");
+        for (const status of [
+            "unpaid",
+            "canceled",
+            "incomplete_expired",
+            "paused",
+        ]) {
+            assert.equal(fromStripeSubscriptionStatus(status), "expired");
+        }
+    });
+
+    it("has no status for unpaid new subscriptions", () => {
+        assert.equal(fromStripeSubscriptionStatus("incomplete"), null);
+    });
+});
+
+describe("isStaleNotification", () => {
+    const lastSignedAt = Date.parse("2026-03-01T12:00:00Z");
+    const lastPurchasedAt = Date.parse("2026-03-01T00:00:00Z");
+    const seen = subscription({
+        last_event_signed_at: new Date(lastSignedAt).toISOString(),
+        last_transaction_purchased_at: new Date(lastPurchasedAt).toISOString(),
+    });
+
+    it("applies anything to a subscription with no history", () => {
+        assert.equal(
+            isStaleNotification(
+                subscription(),
+                lastSignedAt,
+                lastPurchasedAt,
+                "expired"
+            ),
+            false
+        );
+    });
+
+    it("rejects notifications signed before the last one applied", () => {
+        for (const nextStatus of ["active", "revoked", null] as const) {
+            assert.equal(
+                isStaleNotification(
+                    seen,
+                    lastSignedAt - 1,
+                    lastPurchasedAt,
+                    nextStatus
+                ),
+                true
+            );
+        }
+    });
+
+    it("accepts notifications signed at or after the last one", () => {
+        assert.equal(
+            isStaleNotification(seen, lastSignedAt, lastPurchasedAt, "expired"),
+            false
+        );
+        assert.equal(
+            isStaleNotification(
+                seen,
+                lastSignedAt + HOUR_MS,
+                lastPurchasedAt + HOUR_MS,
+                "expired"
+            ),
+            false
+        );
+    });
+
+    it("rejects leaving active for a transaction older than the latest", () => {
+        for (const nextStatus of [
+            "expired",
+            "grace_period",
+            "billing_retry",
+        ] as const) {
+            assert.equal(
+                isStaleNotification(
+                    seen,
+                    lastSignedAt + HOUR_MS,
+                    lastPurchasedAt - HOUR_MS,
+                    nextStatus
+                ),
+                true
+            );
+        }
+    });
+
+    it("applies active and revoked for older transactions", () => {
+        for (const nextStatus of ["active", "revoked"] as const) {
+            assert.equal(
+                isStaleNotification(
+                    seen,
+                    lastSignedAt + HOUR_MS,
+                    lastPurchasedAt - HOUR_MS,
+                    nextStatus
+                ),
+                false
+            );
+        }
+    });
+
+    it("skips the checks it has no dates for", () => {
+        assert.equal(
+            isStaleNotification(seen, undefined, undefined, "expired"),
+            false
+        );
+        assert.equal(
+            isStaleNotification(
+                seen,
+                undefined,
+                lastPurchasedAt - HOUR_MS,
+                null
+            ),
+            false
+        );
+    });
+});
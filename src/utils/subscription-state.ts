@@ -0,0 +1,226 @@
+import {
+    GoogleSubscriptionPurchase,
+    SubscriptionRecord,
+    SubscriptionStatus,
+} from "@/types";
+
+/**
+ * Statuses that still entitle the user to premium access.
+ * Apple keeps retrying the charge during grace period and billing retry,
+ * so paying users are not cut off while their card is being fixed.
+ */
+export const ACCESS_STATUSES: readonly SubscriptionStatus[] = [
+    "active",
+    "grace_period",
+    "billing_retry",
+];
+
+const ALLOWED_TRANSITIONS: Record<SubscriptionStatus, SubscriptionStatus[]> = {
+    active: ["active", "grace_period", "billing_retry", "expired", "revoked"],
+    grace_period: [
+        "active",
+        "grace_period",
+        "billing_retry",
+        "expired",
+        "revoked",
+    ],
+    billing_retry: ["active", "billing_retry", "expired", "revoked"],
+    expired: ["active", "expired", "revoked"],
+    revoked: ["active", "expired", "revoked"],
+};
+
+/**
+ * Map an App Store notification (type + subtype) to the subscription status
+ * it moves the subscription into. Returns null for informational notifications
+ * that don't change the status. `expiresDate` decides whether a restored
+ * subscription is still within its paid period.
+ */
+export function resolveStatusForNotification(
+    notificationType: string,
+    subtype?: string,
+    expiresDate?: number
+): SubscriptionStatus | null {
+    switch (notificationType) {
+        case "SUBSCRIBED":
+        case "DID_RENEW":
+        case "RENEWAL_EXTENDED":
+            return "active";
+
+        case "OFFER_REDEEMED":
+            // Downgrades and offers on an active subscription take effect
+            // at the next renewal
+            return subtype === "INITIAL_BUY" ||
+                subtype === "RESUBSCRIBE" ||
+                subtype === "UPGRADE"
+                ? "active"
+                : null;
+
+        case "REFUND_REVERSED":
+            return !expiresDate || expiresDate > Date.now()
+                ? "active"
+                : "expired";
+
+        case "DID_FAIL_TO_RENEW":
+            return subtype === "GRACE_PERIOD"
+                ? "grace_period"
+                : "billing_retry";
+
+        case "EXPIRED":
+        case "GRACE_PERIOD_EXPIRED":
+            return "expired";
+
+        case "REFUND":
+        case "REVOKE":
+            return "revoked";
+
+        default:
+            return null;
+    }
+}
+
+/**
+ * Map the status returned by Apple's Get All Subscription Statuses API
+ * (1 active, 2 expired, 3 billing retry, 4 grace period, 5 revoked)
+ */
+export function fromAppleStatus(
+    status: number | undefined
+): SubscriptionStatus {
+    switch (status) {
+        case 1:
+            return "active";
+        case 3:
+            return "billing_retry";
+        case 4:
+            return "grace_period";
+        case 5:
+            return "revoked";
+        default:
+            return "expired";
+    }
+}
+
+/**
+ * Map a Google Play subscription state. Canceled subscriptions stay active
+ * until the paid period ends; account hold is Google's billing retry.
+ * Pending purchases have no status yet.
+ */
+export function fromGoogleSubscriptionState(
+    purchase: GoogleSubscriptionPurchase,
+    expiresAt: number | undefined
+): SubscriptionStatus | null {
+    switch (purchase.subscriptionState) {
+        case "SUBSCRIPTION_STATE_ACTIVE":
+            return "active";
+        case "SUBSCRIPTION_STATE_CANCELED":
+            return expiresAt && expiresAt > Date.now() ? "active" : "expired";
+        case "SUBSCRIPTION_STATE_IN_GRACE_PERIOD":
+            return "grace_period";
+        case "SUBSCRIPTION_STATE_ON_HOLD":
+            return "billing_retry";
+        case "SUBSCRIPTION_STATE_PAUSED":
+        case "SUBSCRIPTION_STATE_EXPIRED":
+            return "expired";
+        default:
+            return null;
+    }
+}
+
+/**
+ * Map a Stripe subscription status. Stripe keeps retrying past_due
+ * invoices, which is our billing retry; unpaid means retries ran out.
+ * Incomplete subscriptions haven't been paid for yet and have no status.
+ */
+export function fromStripeSubscriptionStatus(
+    status: string
+): SubscriptionStatus | null {
+    switch (status) {
+        case "active":
+        case "trialing":
+            return "active";
+        case "past_due":
+            return "billing_retry";
+        case "unpaid":
+        case "canceled":
+        case "incomplete_expired":
+        case "paused":
+            return "expired";
+        default:
+            return null;
+    }
+}
+
+/**
+ * Rank used to pick the most favorable status across subscriptions
+ */
+export function statusPriority(status: SubscriptionStatus): number {
+    return [
+        "active",
+        "grace_period",
+        "billing_retry",
+        "expired",
+        "revoked",
+    ].indexOf(status);
+}
+
+export function isTransitionAllowed(
+    from: SubscriptionStatus | null | undefined,
+    to: SubscriptionStatus
+): boolean {
+    // A subscription without a recorded status can enter any state
+    if (!from) {
+        return true;
+    }
+
+    return ALLOWED_TRANSITIONS[from].includes(to);
+}
+
+export function statusGrantsAccess(
+    status: SubscriptionStatus | null | undefined
+): boolean {
+    return !!status && ACCESS_STATUSES.includes(status);
+}
+
+/**
+ * Status of a subscription row, falling back to the legacy `expired` flag
+ * for rows written before statuses were tracked.
+ */
+export function getEffectiveStatus(
+    subscription: SubscriptionRecord
+): SubscriptionStatus {
+    if (subscription.status) {
+        return subscription.status;
+    }
+
+    return subscription.expired ? "expired" : "active";
+}
+
+/**
+ * Apple doesn't guarantee delivery order. A notification is stale when it was
+ * signed before the last one applied to the subscription, or when it would
+ * move the subscription out of active based on a transaction older than the
+ * latest one seen (e.g. a late EXPIRED for a period a newer DID_RENEW
+ * already replaced). Refunds target a specific transaction and always apply.
+ */
+export function isStaleNotification(
+    subscription: SubscriptionRecord,
+    signedDate: number | undefined,
+    purchaseDate: number | undefined,
+    nextStatus: SubscriptionStatus | null
+): boolean {
+    if (
+        signedDate &&
+        subscription.last_event_signed_at &&
+        signedDate < Date.parse(subscription.last_event_signed_at)
+    ) {
+        return true;
+    }
+
+    return (
+        !!nextStatus &&
+        nextStatus !== "active" &&
+        nextStatus !== "revoked" &&
+        !!purchaseDate &&
+        !!subscription.last_transaction_purchased_at &&
+        purchaseDate < Date.parse(subscription.last_transaction_purchased_at)
+    );
+}
@@ -0,0 +1,141 @@
+import {
+    createHmac,
+    createPublicKey,
+    JsonWebKey,
+    KeyObject,
+    timingSafeEqual,
+    verify,
+} from "crypto";
+import { config } from "@/utils/config";
+import logger from "@/utils/logger";
+import { SupabaseJwtPayload } from "@/types";
+
+const JWKS_CACHE_TTL_MS = 10 * 60 * 1000;
+// Refetch at most this often when a token names an unknown key
+const JWKS_MIN_REFRESH_MS = 60 * 1000;
+// Tolerated clock difference with Supabase Auth
+const CLOCK_SKEW_SECONDS = 30;
+
+let signingKeys = new Map<string, KeyObject>();
+let keysLoadedAt = 0;
+
+function decodeSegment<T>(segment: string): T {
+    return JSON.parse(Buffer.from(segment, "base64url").toString("utf8")) as T;
+}
+
+/**
+ * Public signing keys of the project's asymmetric JWT keys, cached and
+ * refreshed when a token is signed with a key we haven't seen (rotation)
+ */
+async function getSigningKey(kid: string): Promise<KeyObject | null> {
+    const age = Date.now() - keysLoadedAt;
+    if (
+        age > JWKS_CACHE_TTL_MS ||
+        (!signingKeys.has(kid) && age > JWKS_MIN_REFRESH_MS)
+    ) {
+        const response = await fetch(
+            `${config.supabase.url}/auth/v1/.well-known/jwks.json`
+        );
+        if (!response.ok) {
+            throw new Error(`JWKS request failed: ${response.status}`);
+        }
+
+        const { keys } = (await response.json()) as {
+            keys: (JsonWebKey & { kid?: string })[];
+        };
+        signingKeys = new Map(
+            keys
+                .filter((jwk) => jwk.kid)
+                .map((jwk) => [
+                    jwk.kid!,
+                    createPublicKey({ key: jwk, format: "jwk" }),
+                ])
+        );
+        keysLoadedAt = Date.now();
+        logger.info("Supabase signing keys loaded", { count: keys.length });
+    }
+
+    return signingKeys.get(kid) || null;
+}
+
+async function verifySignature(
+    alg: string,
+    kid: string | undefined,
+    signingInput: string,
+    signature: Buffer
+): Promise<boolean> {
+    // Legacy projects sign with the shared JWT secret
+    if (alg === "HS256") {
+        const expected = createHmac("sha256", config.security.jwtSecret)
+            .update(signingInput)
+            .digest();
+        return (
+            expected.length === signature.length &&
+            timingSafeEqual(expected, signature)
+        );
+    }
+
+    if (alg !== "RS256" && alg !== "ES256") {
+        throw new Error(`Unsupported JWT algorithm: ${alg}`);
+    }
+
+    const key = kid ? await getSigningKey(kid) : null;
+    if (!key) {
+        throw new Error(`Unknown JWT signing key: ${kid}`);
+    }
+
+    return alg === "RS256"
+        ? verify("RSA-SHA256", Buffer.from(signingInput), key, signature)
+        : verify(
+              "sha256",
+              Buffer.from(signingInput),
+              { key, dsaEncoding: "ieee-p1363" },
+              signature
+          );
+}
+
+/**
+ * Verify a Supabase Auth access token and return its claims. Throws if the
+ * signature, issuer, audience or validity period doesn't check out.
+ */
+export async function verifySupabaseToken(
+    token: string
+): Promise<SupabaseJwtPayload> {
+    const [encodedHeader, encodedPayload, encodedSignature] = token.split(".");
+    if (!encodedHeader || !encodedPayload || !encodedSignature) {
+        throw new Error("Malformed JWT");
+    }
+
+    const header = decodeSegment<{ alg: string; kid?: string }>(encodedHeader);
+    const valid = await verifySignature(
+        header.alg,
+        header.kid,
+        `${encodedHeader}.${encodedPayload}`,
+        Buffer.from(encodedSignature, "base64url")
+    );
+    if (!valid) {
+        throw new Error("Invalid JWT signature");
+    }
+
+    const payload = decodeSegment<SupabaseJwtPayload>(encodedPayload);
+    const now = Math.floor(Date.now() / 1000);
+    const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+
+    if (!payload.exp || payload.exp + CLOCK_SKEW_SECONDS < now) {
+        throw new Error("JWT expired");
+    }
+    if (payload.nbf && payload.nbf - CLOCK_SKEW_SECONDS > now) {
+        throw new Error("JWT not valid yet");
+    }
+    if (payload.iss !== `${config.supabase.url}/auth/v1`) {
+        throw new Error(`Unexpected JWT issuer: ${payload.iss}`);
+    }
+    if (!audiences.includes("authenticated")) {
+        throw new Error("JWT is not for an authenticated user");
+    }
+    if (!payload.sub) {
+        throw new Error("JWT has no subject");
+    }
+
+    return payload;
+}